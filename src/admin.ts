@@ -0,0 +1,218 @@
+import { PASSWORD_PROVIDER, userStore } from "./constants";
+import { AuthContext } from "./authorization";
+import {
+  databaseEditUser,
+  getIdentities,
+  sendPasswordResetToken,
+  validateTableName,
+} from "./dynamo";
+import { retrievableUserFields, withUserFieldDefaults } from "./userFields";
+import { ErrorWithStatus } from "./types/errorWithStatus";
+import { UserAttributes, UserItem } from "./types/userStore";
+import { logger } from ".";
+
+// Operations for administrators, which act on any user. Every action is logged along with the
+// administrator who performed it. Users are only ever returned through toAdminView, so secrets
+// such as password hashes and reset tokens never leave the service.
+
+// What an administrator sees of a user
+export interface AdminUserView {
+  id: string;
+  hasPassword: boolean;
+  mfaEnabled: boolean;
+  disabled: boolean;
+  passwordResetRequired: boolean;
+  // When a deleted user will be purged. Undefined unless the user has been deleted.
+  purgeAt?: string;
+  // The retrievable user fields
+  [field: string]: unknown;
+}
+
+// Which users to list
+export interface AdminUserQuery {
+  limit: number;
+  cursor?: string;
+  emailPrefix?: string;
+  usernamePrefix?: string;
+  // Only users who can sign in with this provider, or "password"
+  provider?: string;
+}
+
+/**
+ * This function lists users a page at a time. Pages may hold fewer users than the limit even if
+ * more follow, as users that do not match the query still count towards it.
+ * @param table the table to read from in DynamoDB
+ * @param admin the administrator making the request
+ * @param query which users to list, and the cursor of the previous page
+ * @returns the users on the page, and the cursor of the next page if there is one
+ */
+export async function listUsers(table: string, admin: AuthContext, query: AdminUserQuery) {
+  validateTableName(table);
+  logAdminAction(admin, "listUsers", { query });
+
+  const page = await userStore.listUsers(table, query);
+  const users = page.users.filter((item) => hasProvider(item, query.provider));
+
+  return { users: users.map(toAdminView), cursor: page.cursor };
+}
+
+/**
+ * This function gets a user's non-secret fields
+ * @param table the table to read from in DynamoDB
+ * @param admin the administrator making the request
+ * @param userId the user_id of the user
+ * @returns the user, throws a 404 error if the user does not exist
+ */
+export async function getUserForAdmin(
+  table: string,
+  admin: AuthContext,
+  userId: string
+): Promise<AdminUserView> {
+  validateTableName(table);
+  logAdminAction(admin, "getUser", { userId });
+
+  return toAdminView(await getUser(table, userId));
+}
+
+/**
+ * This function makes a user reset their password before they can sign in again, and emails them a
+ * reset token
+ * @param table the table to read from/write to in DynamoDB
+ * @param admin the administrator making the request
+ * @param userId the user_id of the user
+ * @returns nothing, throws a 403 error if the user has no password
+ */
+export async function forcePasswordReset(table: string, admin: AuthContext, userId: string) {
+  validateTableName(table);
+  logAdminAction(admin, "forcePasswordReset", { userId });
+
+  const item = await getUser(table, userId);
+  if (!item.password_hash) {
+    throw new ErrorWithStatus(
+      "This user does not have a password to reset, as they signed up with a third-party provider.",
+      403,
+      "WRONG_PROVIDER"
+    );
+  }
+
+  await databaseEditUser(table, userId, { "password_reset_required": true });
+  await sendPasswordResetToken(table, item.email);
+}
+
+/**
+ * This function disables or re-enables a user. Disabled users cannot sign in or refresh their
+ * tokens, though access tokens they already have stay valid until they expire.
+ * @param table the table to write to in DynamoDB
+ * @param admin the administrator making the request
+ * @param userId the user_id of the user
+ * @param disabled whether the user should be disabled
+ * @returns nothing
+ */
+export async function setUserDisabled(
+  table: string,
+  admin: AuthContext,
+  userId: string,
+  disabled: boolean
+) {
+  validateTableName(table);
+  logAdminAction(admin, disabled ? "disableUser" : "enableUser", { userId });
+
+  // Throws a 400 error if the user does not exist, so check first to return a 404 instead
+  const item = await getUser(table, userId);
+  if (item.purge_at !== undefined) {
+    throw new ErrorWithStatus(
+      "This user has been deleted. Restore them instead.",
+      409,
+      "ACCOUNT_DELETED"
+    );
+  }
+  await databaseEditUser(table, userId, { "disabled": disabled });
+}
+
+/**
+ * This function restores a deleted user, as long as they have not been purged yet. The user is
+ * re-enabled.
+ * @param table the table to write to in DynamoDB
+ * @param admin the administrator making the request
+ * @param userId the user_id of the user
+ * @returns nothing, throws a 404 error if the user has been purged, or a 409 error if they were
+ * never deleted
+ */
+export async function restoreUser(table: string, admin: AuthContext, userId: string) {
+  validateTableName(table);
+  logAdminAction(admin, "restoreUser", { userId });
+
+  const item = await getUser(table, userId);
+  if (item.purge_at === undefined) {
+    throw new ErrorWithStatus("This user has not been deleted", 409, "USER_NOT_DELETED");
+  }
+
+  // DynamoDB may take a while to purge users once their purge date passes
+  if (item.purge_at * 1000 <= Date.now()) {
+    throw new ErrorWithStatus(
+      "The grace period for restoring this user has ended",
+      404,
+      "USER_NOT_FOUND"
+    );
+  }
+
+  // Users deleted before disabled_before_deletion was recorded were not disabled
+  await userStore.cancelDeletion(
+    table,
+    userId,
+    { "disabled": item.disabled_before_deletion === true },
+    ["disabled_before_deletion"]
+  );
+}
+
+/**
+ * This function picks out what an administrator may see of a user. It lists what to include,
+ * rather than what to leave out, so that secrets added to users later are never exposed.
+ * @param item the full user item
+ * @returns the retrievable user fields, and flags describing the account
+ */
+function toAdminView(item: UserItem): AdminUserView {
+  const fields = retrievableUserFields();
+  const values: UserAttributes = {};
+  fields.forEach((field) => {
+    if (item[field] !== undefined) {
+      values[field] = item[field];
+    }
+  });
+
+  return {
+    ...withUserFieldDefaults(values, fields),
+    id: item.user_id,
+    hasPassword: Boolean(item.password_hash),
+    mfaEnabled: item.mfa_enabled === true,
+    disabled: item.disabled === true,
+    passwordResetRequired: item.password_reset_required === true,
+    purgeAt: item.purge_at === undefined ? undefined : toIsoString(item.purge_at),
+  };
+}
+
+function toIsoString(epochSeconds: number): string {
+  return new Date(epochSeconds * 1000).toISOString();
+}
+
+function hasProvider(item: UserItem, provider?: string): boolean {
+  if (provider === undefined) {
+    return true;
+  }
+  if (provider === PASSWORD_PROVIDER) {
+    return Boolean(item.password_hash);
+  }
+  return getIdentities(item).some((identity) => identity.provider === provider);
+}
+
+async function getUser(table: string, userId: string): Promise<UserItem> {
+  const item = await userStore.getUser(table, userId);
+  if (item === undefined) {
+    throw new ErrorWithStatus("User Id does not exist", 404, "USER_NOT_FOUND");
+  }
+  return item;
+}
+
+function logAdminAction(admin: AuthContext, action: string, details: object) {
+  logger.info("Admin action", { action, admin: admin.subject ?? "admin API key", ...details });
+}
@@ -0,0 +1,136 @@
+import { LambdaFunctionURLEvent } from "aws-lambda";
+import { AUDIT_SETTINGS, auditStore, TABLE_NAME } from "./constants";
+import { findUserByEmail } from "./dynamo";
+import { getHeader } from "./authorization";
+import { getSourceIp } from "./endpoints";
+import { AuditEventType, AuditPage, AuditQuery } from "./types/auditStore";
+import { ErrorWithStatus } from "./types/errorWithStatus";
+import { logger } from ".";
+
+// The audit log records security-relevant events on users' accounts, such as sign ins and password
+// changes, whether they succeed or fail. Events are kept in their own table for
+// AUDIT_SETTINGS.retentionDays, so that users and administrators can review them later.
+
+// Who an event concerns. Events that only know the user's email, such as sign ins, are
+// recorded against the user with that email, and not at all if there is no such user.
+export interface AuditSubject {
+  userId?: string;
+  email?: string;
+  // Anything else worth recording, e.g. which fields were edited
+  details?: { [key: string]: unknown };
+}
+
+// What is only known about a successful operation once it has finished
+export interface AuditSuccess {
+  // The user_id, e.g. of a user who has just registered, so that they are not looked up by email
+  userId?: string;
+  // The type of the event, if it differs from the type a failure is recorded as, e.g. when a sign
+  // in has only got as far as an MFA challenge
+  type?: AuditEventType;
+}
+
+/**
+ * This function performs an operation, recording in the audit log whether it succeeded. Failing to
+ * record an event is logged, but never fails the operation.
+ * @param event all of the info provided by Lambda about the request that caused the event
+ * @param type the type of the event
+ * @param subject who the event concerns
+ * @param operation the operation to perform
+ * @param successOf gets what to record about a success from the result of the operation
+ * @returns the result of the operation, throws its error after recording the failure
+ */
+export async function audited<T>(
+  event: LambdaFunctionURLEvent,
+  type: AuditEventType,
+  subject: AuditSubject,
+  operation: () => Promise<T>,
+  successOf?: (result: T) => AuditSuccess
+): Promise<T> {
+  let result: T;
+  try {
+    result = await operation();
+  } catch (err) {
+    const code = err instanceof ErrorWithStatus ? err.code : "INTERNAL_ERROR";
+    await recordEvent(event, type, subject, "failure", code);
+    throw err;
+  }
+
+  // Users looked up by email may not be found yet if they have only just been created
+  const success = successOf?.(result);
+  const userId = subject.userId ?? success?.userId;
+  await recordEvent(event, success?.type ?? type, { ...subject, userId }, "success");
+  return result;
+}
+
+/**
+ * This function gets a user's audit history within a time range
+ * @param userId the user_id of the user
+ * @param query the time range, and where to continue from
+ * @returns the page of events, newest first, throws a 400 error if the cursor is invalid
+ */
+export async function getAuditHistory(userId: string, query: AuditQuery): Promise<AuditPage> {
+  return await auditStore.query(userId, query);
+}
+
+/**
+ * This function records an event in the audit log
+ * @param event all of the info provided by Lambda about the request that caused the event
+ * @param type the type of the event
+ * @param subject who the event concerns
+ * @param outcome whether the operation succeeded
+ * @param errorCode the error code of a failure
+ * @returns nothing, logs any error instead of throwing it
+ */
+async function recordEvent(
+  event: LambdaFunctionURLEvent,
+  type: AuditEventType,
+  subject: AuditSubject,
+  outcome: "success" | "failure",
+  errorCode?: string
+) {
+  try {
+    const userId = subject.userId ?? (await findUserId(subject.email));
+    if (userId === undefined) {
+      return;
+    }
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + AUDIT_SETTINGS.retentionDays * 24 * 60 * 60 * 1000);
+    await auditStore.record(
+      {
+        userId,
+        type,
+        outcome,
+        timestamp: now.toISOString(),
+        sourceIp: getSourceIp(event),
+        userAgent: getUserAgent(event),
+        errorCode,
+        requestId: event.requestContext?.requestId,
+        details: subject.details,
+      },
+      expiresAt
+    );
+  } catch (err) {
+    logger.error(`Unable to record ${type} audit event`, err as Error);
+  }
+}
+
+async function findUserId(email: unknown): Promise<string | undefined> {
+  if (typeof email !== "string") {
+    return undefined;
+  }
+  const item = await findUserByEmail(TABLE_NAME, email);
+  return item?.user_id;
+}
+
+function getUserAgent(event: LambdaFunctionURLEvent): string | undefined {
+  // Lambda function URLs provide http.userAgent, API Gateway REST APIs provide identity.userAgent
+  const requestContext:
+    { http?: { userAgent?: string }; identity?: { userAgent?: string } } | undefined =
+    event.requestContext;
+  return (
+    getHeader(event, "user-agent") ??
+    requestContext?.http?.userAgent ??
+    requestContext?.identity?.userAgent
+  );
+}
@@ -0,0 +1,128 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { LambdaFunctionURLEvent } from "aws-lambda";
+import { AUTH_SETTINGS, PASSWORD_RESET_SETTINGS } from "./constants";
+import { decodeJwtHeader, JwtPayload, verifyJwt } from "./jwt";
+import { getJwksKey } from "./jwks";
+import { ErrorWithStatus } from "./types/errorWithStatus";
+
+// The ways a caller can authenticate to a protected route
+//  - bearer: an `Authorization: Bearer <JWT>` header, acting as the user in the token's subject
+//  - apiKey: an `x-api-key` header holding a service API key, trusted to act for any user
+//  - admin: an `x-api-key` header holding an admin API key, or a bearer token with the admin role
+export type AuthMethod = "bearer" | "apiKey" | "admin";
+
+// Who made a request to a protected route
+export interface AuthContext {
+  method: AuthMethod;
+  // The user_id the caller is acting as. Undefined for service and admin API keys.
+  subject?: string;
+  claims?: JwtPayload;
+}
+
+/**
+ * This function authenticates the caller of a protected route
+ * @param event all of the info provided by Lambda about the event
+ * @param accepted the methods the route accepts
+ * @returns who made the request, throws a 401 error if they did not use an accepted method
+ */
+export async function authorize(
+  event: LambdaFunctionURLEvent,
+  accepted: AuthMethod[]
+): Promise<AuthContext> {
+  const acceptsAdmin = accepted.includes("admin");
+
+  const authorization = getHeader(event, "authorization");
+  if ((accepted.includes("bearer") || acceptsAdmin) && authorization?.startsWith("Bearer ")) {
+    const claims = await verifyBearerToken(authorization.slice("Bearer ".length).trim());
+    if (typeof claims.sub !== "string") {
+      throw new ErrorWithStatus("Invalid Token", 401, "INVALID_TOKEN");
+    }
+    if (acceptsAdmin && hasAdminRole(claims)) {
+      return { method: "admin", subject: claims.sub, claims };
+    }
+    if (!accepted.includes("bearer")) {
+      throw new ErrorWithStatus("Administrator access is required", 403, "ACCESS_DENIED");
+    }
+    return { method: "bearer", subject: claims.sub, claims };
+  }
+
+  const apiKey = getHeader(event, "x-api-key");
+  if ((accepted.includes("apiKey") || acceptsAdmin) && apiKey !== undefined) {
+    if (acceptsAdmin && isValidApiKey(apiKey, AUTH_SETTINGS.adminApiKeys)) {
+      return { method: "admin" };
+    }
+    if (!accepted.includes("apiKey") || !isValidApiKey(apiKey, AUTH_SETTINGS.apiKeys)) {
+      throw new ErrorWithStatus("Invalid API Key", 401, "INVALID_API_KEY");
+    }
+    return { method: "apiKey" };
+  }
+
+  const error = new ErrorWithStatus("Authentication is required", 401);
+  if (accepted.includes("bearer") || acceptsAdmin) {
+    error.headers = { "WWW-Authenticate": "Bearer" };
+  }
+  throw error;
+}
+
+/**
+ * This function checks that the caller may act on a user. Bearer tokens may only act on the user
+ * in their subject, while service API keys and administrators may act on any user.
+ * @param auth who made the request
+ * @param userID the user_id the request acts on
+ * @returns nothing, throws a 403 error if the caller may not act on the user
+ */
+export function assertSubject(auth: AuthContext, userID: string) {
+  if (auth.method === "bearer" && auth.subject !== userID) {
+    throw new ErrorWithStatus("You are not allowed to access this user", 403, "ACCESS_DENIED");
+  }
+}
+
+/**
+ * This function gets a request header, regardless of the case it was sent in
+ * @param event all of the info provided by Lambda about the event
+ * @param name the name of the header
+ * @returns the header's value, or undefined if it was not sent
+ */
+export function getHeader(event: LambdaFunctionURLEvent, name: string): string | undefined {
+  const entry = Object.entries(event.headers ?? {}).find(
+    ([header]) => header.toLowerCase() === name.toLowerCase()
+  );
+  return entry?.[1];
+}
+
+// HS256 tokens are checked against the configured secret, and RS256/ES256 tokens against the JWKS
+async function verifyBearerToken(token: string): Promise<JwtPayload> {
+  const { alg, kid } = decodeJwtHeader(token);
+  const jwks = AUTH_SETTINGS.jwks;
+  const usesJwks = alg !== "HS256" && (jwks.file !== undefined || jwks.uri !== undefined);
+
+  const claims = verifyJwt(token, {
+    secret: AUTH_SETTINGS.jwtSecret,
+    publicKey: usesJwks ? await getJwksKey(jwks, kid) : undefined,
+    issuer: AUTH_SETTINGS.issuer,
+    audience: AUTH_SETTINGS.audience,
+    clockToleranceSeconds: 30,
+  });
+
+  // Reset links may be signed with the same key, but only ever reset a password
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (audiences.includes(PASSWORD_RESET_SETTINGS.audience)) {
+    throw new ErrorWithStatus("Invalid Token", 401, "INVALID_TOKEN");
+  }
+  return claims;
+}
+
+// The role claim may be a single role, or a list of them
+function hasAdminRole(claims: JwtPayload): boolean {
+  const roles = claims[AUTH_SETTINGS.adminRoleClaim];
+  if (Array.isArray(roles)) {
+    return roles.includes(AUTH_SETTINGS.adminRole);
+  }
+  return roles === AUTH_SETTINGS.adminRole;
+}
+
+// Hashing first means every comparison is the same length, so it can be done in constant time
+function isValidApiKey(apiKey: string, keys: string[]): boolean {
+  const actual = createHash("sha256").update(apiKey).digest();
+  return keys.some((key) => timingSafeEqual(actual, createHash("sha256").update(key).digest()));
+}
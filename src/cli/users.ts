@@ -0,0 +1,101 @@
+import "dotenv/config";
+import { createWriteStream, readFileSync } from "fs";
+import { extname } from "path";
+import { once } from "events";
+import { TABLE_NAME } from "../constants";
+import { exportUsers, importUsers, parseUsers, TransferFormat } from "../userTransfer";
+
+// Exports and imports users in bulk. Run with `pnpm users <command>`, with the same env variables
+// as the service (see .env.template).
+
+const USAGE = `Usage:
+  pnpm users export [--output <file>] [--format jsonl|csv] [--exclude-secrets]
+  pnpm users import <file> [--format jsonl|csv] [--dry-run]
+
+The format defaults to the file's extension, or jsonl. Exports go to stdout unless --output is set.
+Imports skip and report users whose ID, email or username has been taken.`;
+
+/**
+ * This function runs the CLI
+ * @param args the command line arguments, after the script name
+ * @returns the exit code
+ */
+async function main(args: string[]): Promise<number> {
+  const [command, ...rest] = args;
+  const { positional, options } = parseArgs(rest);
+
+  if (command === "export" && positional.length === 0) {
+    const format = getFormat(options.format, options.output);
+    const output = options.output ? createWriteStream(options.output) : process.stdout;
+    for await (const line of exportUsers(TABLE_NAME, format, !options["exclude-secrets"])) {
+      if (!output.write(line + "\n")) {
+        await once(output, "drain");
+      }
+    }
+    if (output !== process.stdout) {
+      output.end();
+      await once(output, "finish");
+    }
+    return 0;
+  }
+
+  if (command === "import" && positional.length === 1) {
+    const [file] = positional;
+    const items = parseUsers(readFileSync(file, "utf8"), getFormat(options.format, file));
+    const report = await importUsers(TABLE_NAME, items, Boolean(options["dry-run"]));
+
+    const verb = report.dryRun ? "Would import" : "Imported";
+    console.log(`${verb} ${report.imported} of ${items.length} users`);
+    report.duplicates.forEach(({ row, reason }) => console.log(`Skipped row ${row}: ${reason}`));
+    report.invalid.forEach(({ row, reason }) => console.log(`Invalid row ${row}: ${reason}`));
+    report.failed.forEach(({ row, reason }) => console.log(`Failed row ${row}: ${reason}`));
+    if (report.ignoredAttributes.length > 0) {
+      console.log(`Ignored attributes: ${report.ignoredAttributes.join(", ")}`);
+    }
+    return report.invalid.length > 0 || report.failed.length > 0 ? 1 : 0;
+  }
+
+  console.error(USAGE);
+  return 2;
+}
+
+/**
+ * This function splits command line arguments into positional arguments and --options
+ * @param args the command line arguments
+ * @returns the positional arguments, and the options and their values (true for flags)
+ */
+function parseArgs(args: string[]) {
+  const flags = ["exclude-secrets", "dry-run"];
+  const positional: string[] = [];
+  const options: { [name: string]: string | undefined } = {};
+
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith("--")) {
+      positional.push(args[i]);
+      continue;
+    }
+    const name = args[i].slice(2);
+    if (flags.includes(name)) {
+      options[name] = "true";
+    } else {
+      options[name] = args[++i];
+    }
+  }
+  return { positional, options };
+}
+
+function getFormat(format?: string, file?: string): TransferFormat {
+  const chosen = format ?? (file && extname(file) === ".csv" ? "csv" : "jsonl");
+  if (chosen !== "jsonl" && chosen !== "csv") {
+    throw new Error(`Unknown format '${chosen}'`);
+  }
+  return chosen;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error(err.message ?? err);
+    process.exit(1);
+  }
+);
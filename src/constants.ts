@@ -1,33 +1,374 @@
 import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
 import { fromEnv } from "@aws-sdk/credential-providers";
-import nodemailer from "nodemailer";
+import { UserStore } from "./types/userStore";
+import { DynamoUserStore } from "./stores/dynamoUserStore";
+import { MemoryUserStore } from "./stores/memoryUserStore";
+import { RecordStore } from "./types/recordStore";
+import { DynamoRecordStore } from "./stores/dynamoRecordStore";
+import { MemoryRecordStore } from "./stores/memoryRecordStore";
+import { AuditStore } from "./types/auditStore";
+import { DynamoAuditStore } from "./stores/dynamoAuditStore";
+import { MemoryAuditStore } from "./stores/memoryAuditStore";
+import { MailQueue } from "./types/mailQueue";
+import { DynamoMailQueue } from "./stores/dynamoMailQueue";
+import { MemoryMailQueue } from "./stores/memoryMailQueue";
+import { MailTransport } from "./types/mailTransport";
+import { SmtpMailTransport } from "./transports/smtpMailTransport";
+import { FileMailTransport, OutboxFormat } from "./transports/fileMailTransport";
+import { MemoryMailTransport } from "./transports/memoryMailTransport";
+import { OauthProviderConfig } from "./types/oauthProvider";
+import { UserFieldDefinition } from "./types/userField";
 
 const client = new DynamoDBClient({
   region: "ap-southeast-2",
   credentials: fromEnv(),
 });
 
-export const docClient = DynamoDBDocumentClient.from(client);
+// Optional attributes (e.g. password_hash for OAuth users) may be undefined, so leave them out
+export const docClient = DynamoDBDocumentClient.from(client, {
+  marshallOptions: { removeUndefinedValues: true },
+});
 
 // Add your user table name here from DynamoDB once created
 // If you are using Terraform, you could look into changing this a process.env variable,
 // and have Terraform pass it in as an environment variable once the table is created.
 export const TABLE_NAME = "User Data Table";
 
-// Fields that you will allow the user to edit after signing up
-export const ADDITIONAL_USER_FIELDS = ["username"];
+// Name of the global secondary index on the user table, keyed on email, used for all email lookups
+// This must match the index declared in terraform/dynamo.tf
+export const EMAIL_INDEX_NAME = "email-index";
+
+// Table that reserves each username for a single user, so that usernames stay unique
+// This must match the table declared in terraform/dynamo.tf
+export const USERNAME_TABLE_NAME = "User Data Usernames";
 
-// Fields that you will allow the user to retrieve, but not all can be edited.
-export const RETRIEVABLE_USER_FIELDS = ["username", "provider", "email", ...ADDITIONAL_USER_FIELDS];
+// The name used for passwords when linking and unlinking sign-in methods, so it can never be used
+// as the name of an OAuth provider
+export const PASSWORD_PROVIDER = "password";
 
-// This is the email transport that will be used to send emails for resetting passwords
-export const emailTransport = nodemailer.createTransport({
-  service: "Gmail",
-  host: "smtp.gmail.com",
-  port: 465,
-  auth: {
-    user: process.env.MAIL_USERNAME,
-    pass: process.env.MAIL_PASSWORD,
+// OAuth providers that users can sign in with. /handle-oauth only trusts ID tokens that verify
+// against these. Add an entry for each provider you support. The JWKS can be loaded from a local
+// file instead (e.g. for testing offline), which takes precedence over the URI.
+export const OAUTH_PROVIDERS: { [provider: string]: OauthProviderConfig } = {
+  google: {
+    issuers: ["https://accounts.google.com", "accounts.google.com"],
+    audience: process.env.GOOGLE_CLIENT_ID || undefined,
+    jwks: {
+      file: process.env.GOOGLE_JWKS_FILE || undefined,
+      uri: "https://www.googleapis.com/oauth2/v3/certs",
+    },
   },
-});
+};
+
+// Format rules for usernames. Usernames are unique regardless of case.
+export const USERNAME_RULES = {
+  minLength: 3,
+  maxLength: 30,
+  pattern: /^[a-zA-Z0-9]+$/,
+  // Used in the error message when a username does not match the pattern
+  patternDescription: "letters and numbers",
+  // Lowercase usernames that nobody may take
+  reserved: ["admin", "administrator", "root", "support", "system", "null", "undefined"],
+};
+
+// Rules that new passwords must meet on registration, password change and password reset
+export const PASSWORD_POLICY = {
+  minLength: 8,
+  // bcrypt only uses the first 72 bytes of a password
+  maxBytes: 72,
+  requireLowercase: true,
+  requireUppercase: true,
+  requireDigit: true,
+  requireSymbol: false,
+  // Reject passwords in src/data/commonPasswords.ts
+  rejectCommon: true,
+  // How many previous passwords a new password must differ from. Set to 0 to allow reuse.
+  historySize: 5,
+};
+
+// Table for short-lived records, such as failed login counters. TTL must be enabled on expires_at.
+// This must match the table declared in terraform/dynamo.tf
+export const RECORD_TABLE_NAME = "User Data Records";
+
+// Table for the audit log of security-relevant events, keyed on user_id and event_key. TTL must be
+// enabled on expires_at. This must match the table declared in terraform/dynamo.tf
+export const AUDIT_TABLE_NAME = "User Data Audit";
+
+// The audit log of security-relevant events, such as sign ins and password changes
+export const AUDIT_SETTINGS = {
+  // How long events are kept before they are deleted
+  retentionDays: Number(process.env.AUDIT_RETENTION_DAYS || 365),
+};
+
+// Limits on failed logins. Failures are counted per account and per source IP within a window.
+// Past delayAfterFailures, each failure blocks further attempts for an escalating delay (429), and
+// past the lockout threshold the account is locked (423) and the IP blocked (429) for a while.
+export const LOGIN_THROTTLE = {
+  failureWindowSeconds: 15 * 60,
+  delayAfterFailures: 3,
+  baseDelaySeconds: 1,
+  maxDelaySeconds: 60,
+  accountLockoutThreshold: 10,
+  ipLockoutThreshold: 50,
+  lockoutSeconds: 15 * 60,
+};
+
+// Account enumeration protection. If enabled, /register, /authenticate, /pw-reset-token and
+// /pw-reset (and their v2 equivalents) respond the same way whether or not an account has the
+// email, and however it signs in. The account's owner is emailed a notice instead. See
+// src/enumeration.ts.
+export const ENUMERATION_PROTECTION = {
+  enabled: process.env.ENUMERATION_PROTECTION === "true",
+  // Every response from those routes is delayed until at least this long after the request
+  // started, so that their timings match too. Set this above the time they take to send an email.
+  minResponseMs: 1000,
+  // How many notices can be emailed to an account within the window. Further notices are dropped.
+  maxNotices: 3,
+  noticeWindowSeconds: 60 * 60,
+};
+
+// Signed access and refresh tokens are only returned on sign in if TOKEN_SIGNING_KEY is set
+export const TOKEN_SETTINGS = {
+  // Secret used to sign access tokens with HS256. Use a long random value.
+  signingKey: process.env.TOKEN_SIGNING_KEY,
+  issuer: "jasss-user-data",
+  // Optional aud claim, so that consumers can reject tokens meant for other services
+  audience: process.env.TOKEN_AUDIENCE || undefined,
+  accessTokenSeconds: 15 * 60,
+  // Refresh tokens rotate on every use. A family of rotated tokens expires after this long unused.
+  refreshTokenSeconds: 30 * 24 * 60 * 60,
+  // User fields to include as claims in access tokens
+  claims: ["username", "email"],
+};
+
+// How callers authenticate to protected routes, such as /set, /get and /delete
+export const AUTH_SETTINGS = {
+  // Secret for HS256 bearer tokens. Defaults to the key this service signs its own tokens with.
+  jwtSecret: process.env.AUTH_JWT_SECRET || TOKEN_SETTINGS.signingKey,
+  // JWKS for RS256/ES256 bearer tokens from another issuer, from a local file or a URL
+  jwks: {
+    file: process.env.AUTH_JWKS_FILE || undefined,
+    uri: process.env.AUTH_JWKS_URI || undefined,
+  },
+  // If set, bearer tokens must have these iss and aud claims
+  issuer: process.env.AUTH_ISSUER || TOKEN_SETTINGS.issuer,
+  audience: process.env.AUTH_AUDIENCE || TOKEN_SETTINGS.audience,
+  // Comma-separated API keys for other services, which may act on any user
+  apiKeys: (process.env.SERVICE_API_KEYS ?? "")
+    .split(",")
+    .map((key) => key.trim())
+    .filter((key) => key !== ""),
+  // Comma-separated API keys for administrators, which may use the /admin routes
+  adminApiKeys: (process.env.ADMIN_API_KEYS ?? "")
+    .split(",")
+    .map((key) => key.trim())
+    .filter((key) => key !== ""),
+  // Bearer tokens may also use the /admin routes if this claim includes this role. The claim may be
+  // a string or a list of strings.
+  adminRoleClaim: "roles",
+  adminRole: "admin",
+};
+
+// Cross-origin requests from browsers
+export const CORS_SETTINGS = {
+  // Comma-separated origins that may call the API from a browser, e.g. https://app.example.com.
+  // Use * to allow any origin. If empty, no cross-origin requests are allowed.
+  allowedOrigins: (process.env.CORS_ORIGINS ?? "")
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter((origin) => origin !== ""),
+  // Request headers browsers may send
+  allowedHeaders: ["Content-Type", "Authorization", "x-api-key"],
+  // Response headers browsers may read
+  exposedHeaders: ["Retry-After", "WWW-Authenticate", "X-Request-Id", "Content-Disposition"],
+  // How long browsers may cache preflight responses
+  maxAgeSeconds: 600,
+};
+
+// Email verification for users who register with a password
+export const EMAIL_VERIFICATION = {
+  // If true, users cannot sign in until they verify their email. Otherwise, /authenticate just
+  // reports whether the email has been verified.
+  required: process.env.REQUIRE_EMAIL_VERIFICATION === "true",
+  tokenHours: 24,
+  // How many times /resend-verification can be used per email within the window
+  maxResends: 3,
+  resendWindowSeconds: 60 * 60,
+};
+
+// Password reset tokens, which are kept in the records table until they expire. Only the latest
+// token requested for a user can be used, and only once.
+export const PASSWORD_RESET_SETTINGS = {
+  tokenMinutes: 60,
+  // How many times each token can be tried before a new one must be requested
+  maxAttempts: 5,
+  // The page of your app that reset links open, e.g. https://app.example.com/reset-password. If
+  // set, reset emails hold a signed link as well as the token. The email and a signed token are
+  // added to its query string, for the page to pass to /pw-reset.
+  linkUrl: process.env.PASSWORD_RESET_LINK_URL || undefined,
+  // Secret used to sign reset links with HS256. Defaults to TOKEN_SIGNING_KEY.
+  signingKey: process.env.PASSWORD_RESET_SIGNING_KEY || TOKEN_SETTINGS.signingKey,
+  // The aud claim of reset links, so that they can never be used as access tokens, or access
+  // tokens as reset links, when both are signed with the same key
+  audience: "jasss-user-data/password-reset",
+};
+
+// Emails sent to users, rendered from the templates in src/templates (see src/emailTemplates.ts)
+export const EMAIL_SETTINGS = {
+  from: process.env.MAIL_USERNAME,
+  // Used when there is no template in the user's locale, or they have not set one
+  defaultLocale: "en",
+  // A directory of templates that take precedence over the bundled ones, named
+  // <type>.<locale>.html, e.g. passwordReset.pt-BR.html
+  templateDir: process.env.EMAIL_TEMPLATE_DIR || undefined,
+};
+
+// How emails are delivered. Set MAIL_TRANSPORT to "smtp" (the default) to send them through an SMTP
+// server, "file" to write them to an outbox directory instead (e.g. for local development), or
+// "memory" to keep them in memory (e.g. for tests).
+const smtpPort = Number(process.env.MAIL_SMTP_PORT || 465);
+export const MAIL_TRANSPORT_SETTINGS = {
+  transport: process.env.MAIL_TRANSPORT || "smtp",
+  // Defaults to Gmail
+  smtp: {
+    host: process.env.MAIL_SMTP_HOST || "smtp.gmail.com",
+    port: smtpPort,
+    // Port 465 always uses TLS. Other ports upgrade with STARTTLS unless this is set.
+    secure: process.env.MAIL_SMTP_SECURE === "true" || smtpPort === 465,
+    user: process.env.MAIL_USERNAME || undefined,
+    pass: process.env.MAIL_PASSWORD || undefined,
+  },
+  // Emails are written as JSON, or as EML files that mail clients can open
+  outbox: {
+    directory: process.env.MAIL_OUTBOX_DIR || "outbox",
+    format: (process.env.MAIL_OUTBOX_FORMAT === "eml" ? "eml" : "json") as OutboxFormat,
+  },
+};
+
+// Emails that fail to send are queued and retried with exponential backoff, whenever the Lambda is
+// invoked by the schedule in terraform/main.tf. TTL must be enabled on expires_at.
+// This must match the table declared in terraform/dynamo.tf
+export const MAIL_QUEUE_TABLE_NAME = "User Data Mail Queue";
+
+export const MAIL_RETRY_SETTINGS = {
+  // Including the first attempt
+  maxAttempts: 6,
+  baseDelaySeconds: 60,
+  maxDelaySeconds: 60 * 60,
+  // Emails still unsent after this long are dropped. Emails with a token or link are dropped
+  // sooner, once it expires.
+  giveUpAfterHours: 24,
+  // The most emails to retry per invocation
+  batchSize: 25,
+};
+
+// Passwordless sign in, with a one-time code or magic link emailed to the user
+export const PASSWORDLESS_SETTINGS = {
+  codeMinutes: 10,
+  // How many digits codes that users type have
+  codeLength: 6,
+  // How many times each code can be tried before a new one must be requested
+  maxAttempts: 5,
+  // How many codes can be requested per email within the window
+  maxRequests: 5,
+  requestWindowSeconds: 60 * 60,
+  // The page of your app that magic links open, e.g. https://app.example.com/sign-in. The email and
+  // code are added to its query string, for the page to pass to /passwordless/verify. Magic links
+  // cannot be requested unless this is set.
+  linkUrl: process.env.PASSWORDLESS_LINK_URL || undefined,
+  // If true, signing in with an email that has no account registers a new user
+  autoRegister: process.env.PASSWORDLESS_AUTO_REGISTER === "true",
+};
+
+// TOTP multi-factor authentication
+export const MFA_SETTINGS = {
+  // The service name shown in authenticator apps
+  issuer: "JASSS",
+  // How long users have to enter a code after signing in with their password
+  challengeSeconds: 5 * 60,
+  maxChallengeAttempts: 5,
+  recoveryCodeCount: 10,
+};
+
+// Deleted users can be restored by an administrator for this long, after which they are purged
+// through TTL on purge_at. TTL must be enabled on purge_at in terraform/dynamo.tf.
+export const DELETION_SETTINGS = {
+  gracePeriodDays: 30,
+};
+
+// Bulk imports through the users CLI (src/cli/users.ts). Each user is written in its own
+// transaction, along with their username reservation, so batchSize is how many of these are sent
+// at once rather than a DynamoDB batch write. Writes that DynamoDB throttles are retried with
+// exponential backoff.
+export const IMPORT_SETTINGS = {
+  batchSize: 25,
+  maxAttempts: 5,
+  baseRetryDelayMs: 200,
+};
+
+// The backend that data is stored in. Set USER_STORE to "memory" to run without DynamoDB, e.g. for
+// tests and local development. Anything else uses the DynamoDB tables above.
+const useMemoryStores = process.env.USER_STORE === "memory";
+
+export const userStore: UserStore = useMemoryStores
+  ? new MemoryUserStore()
+  : new DynamoUserStore(docClient, EMAIL_INDEX_NAME, USERNAME_TABLE_NAME);
+
+export const recordStore: RecordStore = useMemoryStores
+  ? new MemoryRecordStore()
+  : new DynamoRecordStore(docClient, RECORD_TABLE_NAME);
+
+export const auditStore: AuditStore = useMemoryStores
+  ? new MemoryAuditStore()
+  : new DynamoAuditStore(docClient, AUDIT_TABLE_NAME);
+
+export const mailQueue: MailQueue = useMemoryStores
+  ? new MemoryMailQueue()
+  : new DynamoMailQueue(docClient, MAIL_QUEUE_TABLE_NAME);
+
+const MAIL_TRANSPORTS: { [transport: string]: () => MailTransport } = {
+  smtp: () => new SmtpMailTransport(MAIL_TRANSPORT_SETTINGS.smtp),
+  file: () =>
+    new FileMailTransport(
+      MAIL_TRANSPORT_SETTINGS.outbox.directory,
+      MAIL_TRANSPORT_SETTINGS.outbox.format
+    ),
+  memory: () => new MemoryMailTransport(),
+};
+
+if (MAIL_TRANSPORTS[MAIL_TRANSPORT_SETTINGS.transport] === undefined) {
+  throw new Error(`Unknown MAIL_TRANSPORT ${MAIL_TRANSPORT_SETTINGS.transport}`);
+}
+
+// The transport that every email is sent with
+export const mailTransport: MailTransport = MAIL_TRANSPORTS[MAIL_TRANSPORT_SETTINGS.transport]();
+
+// The fields users have, and which of them users may edit (through /set and /register) and
+// retrieve (through /get). Declare your own profile fields here to have them validated, e.g.
+//   "display_name": { type: "string", editable: true, retrievable: true, maxLength: 50 },
+//   "age": { type: "number", editable: true, retrievable: true, integer: true, min: 13 },
+//   "theme": { type: "string", editable: true, retrievable: true, enum: ["light", "dark"] },
+// Fields that are not declared cannot be set or retrieved. See UserFieldDefinition for every
+// option.
+export const USER_FIELDS: { [field: string]: UserFieldDefinition } = {
+  // Also checked against USERNAME_RULES
+  "username": { type: "string", editable: true, retrievable: true, required: true },
+  "email": { type: "string", retrievable: true, required: true },
+  // Users created before email verification was added have no flag, and count as verified
+  "email_verified": { type: "boolean", retrievable: true },
+  // Users created before identities were recorded have a provider instead (see LEGACY_FIELD_VALUES
+  // in src/userFields.ts)
+  "identities": { type: "list", items: "object", retrievable: true },
+  // The language emails are sent in, as a BCP 47 tag such as en or pt-BR
+  "locale": {
+    type: "string",
+    editable: true,
+    retrievable: true,
+    maxLength: 35,
+    pattern: /^[a-zA-Z]{2,8}(-[a-zA-Z0-9]{1,8})*$/,
+    patternDescription: "a language tag such as en or pt-BR",
+  },
+  // Only set on users who signed up with a provider before identities were recorded
+  "provider": { type: "string", retrievable: true },
+};
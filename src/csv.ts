@@ -0,0 +1,64 @@
+// Reading and writing CSV (RFC 4180). Cells containing commas, quotes or line breaks are quoted,
+// with quotes inside them doubled.
+
+/**
+ * This function formats a row of cells as a line of CSV
+ * @param cells the cells of the row
+ * @returns the line, without a trailing line break
+ */
+export function toCsvLine(cells: string[]): string {
+  return cells.map(quoteCell).join(",");
+}
+
+/**
+ * This function parses CSV into rows of cells. Quoted cells may contain line breaks.
+ * @param text the CSV
+ * @returns the rows, leaving out empty lines
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      // Treat \r\n as a single line break
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter((cells) => cells.length > 1 || cells[0] !== "");
+}
+
+function quoteCell(cell: string): string {
+  if (!/[",\r\n]/.test(cell)) {
+    return cell;
+  }
+  return '"' + cell.replaceAll('"', '""') + '"';
+}
@@ -0,0 +1,231 @@
+// Commonly used passwords, in lowercase, that the password policy rejects. Add to this list as
+// needed; it is bundled with the service so that checks run offline.
+export const COMMON_PASSWORDS: string[] = [
+  "123456",
+  "password",
+  "12345678",
+  "qwerty",
+  "123456789",
+  "12345",
+  "1234",
+  "111111",
+  "1234567",
+  "dragon",
+  "123123",
+  "baseball",
+  "abc123",
+  "football",
+  "monkey",
+  "letmein",
+  "696969",
+  "shadow",
+  "master",
+  "666666",
+  "qwertyuiop",
+  "123321",
+  "mustang",
+  "1234567890",
+  "michael",
+  "654321",
+  "superman",
+  "1qaz2wsx",
+  "7777777",
+  "121212",
+  "000000",
+  "qazwsx",
+  "123qwe",
+  "killer",
+  "trustno1",
+  "jordan",
+  "jennifer",
+  "zxcvbnm",
+  "asdfgh",
+  "hunter",
+  "buster",
+  "soccer",
+  "harley",
+  "batman",
+  "andrew",
+  "tigger",
+  "sunshine",
+  "iloveyou",
+  "2000",
+  "charlie",
+  "robert",
+  "thomas",
+  "hockey",
+  "ranger",
+  "daniel",
+  "starwars",
+  "klaster",
+  "112233",
+  "george",
+  "computer",
+  "michelle",
+  "jessica",
+  "pepper",
+  "1111",
+  "zxcvbn",
+  "555555",
+  "11111111",
+  "131313",
+  "freedom",
+  "777777",
+  "pass",
+  "maggie",
+  "159753",
+  "aaaaaa",
+  "ginger",
+  "princess",
+  "joshua",
+  "cheese",
+  "amanda",
+  "summer",
+  "love",
+  "ashley",
+  "nicole",
+  "chelsea",
+  "biteme",
+  "matthew",
+  "access",
+  "yankees",
+  "987654321",
+  "dallas",
+  "austin",
+  "thunder",
+  "taylor",
+  "matrix",
+  "mobilemail",
+  "mom",
+  "monitor",
+  "monitoring",
+  "montana",
+  "moon",
+  "moscow",
+  "password1",
+  "password123",
+  "passw0rd",
+  "p@ssw0rd",
+  "p@ssword",
+  "welcome",
+  "welcome1",
+  "admin",
+  "admin123",
+  "administrator",
+  "root",
+  "toor",
+  "login",
+  "abc12345",
+  "qwerty123",
+  "qwerty1",
+  "1q2w3e4r",
+  "1q2w3e4r5t",
+  "1qaz2wsx3edc",
+  "zaq12wsx",
+  "q1w2e3r4",
+  "q1w2e3r4t5",
+  "asdf1234",
+  "asdfghjkl",
+  "123abc",
+  "1234qwer",
+  "iloveyou1",
+  "princess1",
+  "football1",
+  "baseball1",
+  "sunshine1",
+  "monkey1",
+  "dragon1",
+  "master1",
+  "letmein1",
+  "shadow1",
+  "superman1",
+  "trustno11",
+  "hello",
+  "hello123",
+  "secret",
+  "secret1",
+  "changeme",
+  "changeme1",
+  "default",
+  "guest",
+  "test",
+  "test123",
+  "testing",
+  "123test",
+  "user",
+  "user123",
+  "demo",
+  "qwe123",
+  "abcd1234",
+  "aa123456",
+  "a123456",
+  "123456a",
+  "12qwaszx",
+  "1234abcd",
+  "11223344",
+  "88888888",
+  "99999999",
+  "00000000",
+  "123123123",
+  "987654",
+  "121212121",
+  "123654",
+  "147258369",
+  "159357",
+  "369258147",
+  "789456123",
+  "google",
+  "facebook",
+  "linkedin",
+  "whatever",
+  "nothing",
+  "internet",
+  "samsung",
+  "apple",
+  "iphone",
+  "android",
+  "starwars1",
+  "pokemon",
+  "naruto",
+  "minecraft",
+  "liverpool",
+  "arsenal",
+  "chelsea1",
+  "barcelona",
+  "realmadrid",
+  "juventus",
+  "manchester",
+  "soccer1",
+  "hockey1",
+  "basketball",
+  "lakers",
+  "cowboys",
+  "steelers",
+  "patriots",
+  "yankees1",
+  "letmein123",
+  "welcome123",
+  "password12",
+  "password1234",
+  "passwordpassword",
+  "qwertyuiop123",
+  "1q2w3e",
+  "1qazxsw2",
+  "zaq1xsw2",
+  "q2w3e4r5",
+  "asdasd",
+  "asdasd123",
+  "zxc123",
+  "zxcvbnm1",
+  "qweasd",
+  "qweasdzxc",
+  "1qaz2wsx!",
+  "password!",
+  "password1!",
+  "p@ssw0rd1",
+  "passw0rd!",
+  "summer2024",
+  "winter2024",
+  "spring2024",
+  "autumn2024",
+];
@@ -1,158 +1,304 @@
 import bcrypt from "bcryptjs";
 import * as EmailValidator from "email-validator";
-import {
-  ScanCommand,
-  DeleteCommand,
-  GetCommand,
-  PutCommand,
-  UpdateCommand,
-} from "@aws-sdk/lib-dynamodb";
 import { ErrorWithStatus } from "./types/errorWithStatus";
+import { LinkedIdentity, UserAttributes, UserItem } from "./types/userStore";
 import {
-  ADDITIONAL_USER_FIELDS,
-  docClient,
-  RETRIEVABLE_USER_FIELDS,
+  DELETION_SETTINGS,
+  EMAIL_SETTINGS,
+  EMAIL_VERIFICATION,
+  ENUMERATION_PROTECTION,
+  PASSWORD_PROVIDER,
+  PASSWORD_RESET_SETTINGS,
   TABLE_NAME,
+  recordStore,
+  userStore,
 } from "./constants";
 import crypto, { randomUUID } from "crypto";
-import { emailTransport } from "./constants";
 import { logger } from ".";
+import { oauthUsernameCandidates, validateUsername } from "./usernames";
+import { enforcePasswordPolicy, passwordHistory } from "./passwordPolicy";
+import { checkLoginAllowed, clearLoginFailures, recordLoginFailure } from "./loginThrottle";
+import {
+  LEGACY_FIELD_SOURCES,
+  userFieldDefaults,
+  validateRetrievableFields,
+  validateUserFields,
+  withoutSecrets,
+  withUserFieldDefaults,
+} from "./userFields";
+import { renderEmail } from "./emailTemplates";
+import { deliverMail } from "./mail";
+import { AccountNoticeType, EmailType, EmailVariables } from "./types/email";
+import { signJwt, verifyJwt } from "./jwt";
+
+// How many usernames to try when registering an OAuth user whose name has been taken
+const OAUTH_USERNAME_ATTEMPTS = 5;
+
+// The latest password reset token emailed to a user, hashed. token_id identifies the token in
+// reset links, and expires is in milliseconds since the epoch.
+interface PasswordResetRecord {
+  token_hash: string;
+  token_id: string;
+  attempts: number;
+  expires: number;
+}
+
+// The latest email verification token sent to a user, hashed
+interface VerificationRecord {
+  token_hash: string;
+}
 
 /**
  * This function registers a user to the database and returns the user_id. The username must be
- * alphanumeric, and the username and email must both be unique.
+ * alphanumeric, and the username and email must both be unique. Any other fields must be editable
+ * fields in USER_FIELDS, and fields they leave out start off with their defaults. The user's email
+ * starts off unverified, and a verification token is emailed to them.
  * @param table the table to write to in DynamoDB
  * @param username the username provided by the request
  * @param password the password provided by the request
  * @param email the email provided by the request
+ * @param info an object containing any other fields to set and their respective values
  * @returns new user ID
  */
 export const registerUser = async (
   table: string,
   username: string,
   password: string,
-  email: string
+  email: string,
+  info: { [field: string]: unknown } = {}
 ): Promise<string> => {
   validateTableName(table);
 
-  // Validate Email and Username
+  // Validate Email, Username and the other fields
   if (!EmailValidator.validate(email)) {
-    throw new ErrorWithStatus("Invalid Email", 400);
+    throw new ErrorWithStatus("Invalid Email", 400, "INVALID_EMAIL");
   }
+  validateUserFields({ ...info, username }, true);
+  validateUsername(username);
 
-  // Check if email/username is not already taken
-  const command = new ScanCommand({
-    TableName: table,
-  });
+  // Check the password against the password policy. This comes first, so that weak passwords are
+  // rejected the same way whether or not the email has been taken.
+  await enforcePasswordPolicy(password);
 
-  const response = await docClient.send(command);
-  if (response.Items !== undefined) {
-    for (const item of response.Items) {
-      // Check if email is taken
-      if (item.email === email) {
-        const str = `${item.provider ? ` Did you mean to sign in using ${item.provider}?` : ""}`;
-        throw new ErrorWithStatus(`Email has been taken.${str}`, 409);
-      }
+  // Check if email is not already taken. The username is reserved when the user is added.
+  const item = await findUserByEmail(table, email);
+  if (item !== undefined) {
+    if (ENUMERATION_PROTECTION.enabled) {
+      await sendAccountNotice(item, "registrationAttempt");
     }
+    const providers = getIdentities(item).map((identity) => identity.provider);
+    const str =
+      providers.length > 0 ? ` Did you mean to sign in using ${providers.join(" or ")}?` : "";
+    throw new ErrorWithStatus(`Email has been taken.${str}`, 409, "EMAIL_TAKEN");
   }
 
-  // Hash the provided password
+  // Hash the password
   const hashedPassword = await bcrypt.hash(password, 10);
 
-  // Add the user to the database and return their ID
-  return await databaseAddUser(table, username, email, hashedPassword);
+  // Add the user to the database
+  const userId = await databaseAddUser(table, username, email, hashedPassword, undefined, {
+    ...userFieldDefaults(),
+    ...info,
+  });
+
+  // Email them a verification token. The account exists either way, so if this fails the user can
+  // ask for another token at /resend-verification.
+  try {
+    await sendEmailVerificationToken(table, userId, email, info.locale as string | undefined);
+  } catch (err) {
+    logger.error("Unable to send email verification token", err as Error);
+  }
+
+  return userId;
 };
 
 /**
  * This function attempts to authenticate a user and returns the user_id if successful. Otherwise,
- * throws error.
+ * throws error. Failed attempts are counted against the account and source IP, and once too many
+ * have failed, further attempts are refused without checking the password.
  * @param table the table to read from in DynamoDB
  * @param email the email provided by the request
  * @param password the password provided by the request
+ * @param sourceIp the IP address the request came from, if known
  * @returns the userID if exists
  */
 export const authenticateUser = async (
   table: string,
   email: string,
-  password: string
+  password: string,
+  sourceIp?: string
 ): Promise<string> => {
   validateTableName(table);
 
-  const command = new ScanCommand({
-    TableName: table,
-  });
+  // Throws if the account or IP has been locked out
+  await checkLoginAllowed(email, sourceIp);
 
-  const response = await docClient.send(command);
-  if (response.Items !== undefined) {
-    for (const item of response.Items) {
-      if (item.email === email) {
-        if (item.provider) {
-          throw new ErrorWithStatus(
-            `You previously signed up using ${item.provider}. Please use that to sign in instead.`,
-            403
-          );
-        }
-        if (await bcrypt.compare(password, item.password_hash)) {
-          // Returning the found user ID
-          return item.user_id as string;
-        }
+  const item = await findUserByEmail(table, email);
+  if (item !== undefined) {
+    if (!item.password_hash) {
+      // The response will not say that the account has no password, so count it as a failure
+      if (ENUMERATION_PROTECTION.enabled) {
+        await recordLoginFailure(email, sourceIp);
+        await sendAccountNotice(item, "passwordSignInAttempt");
       }
+      const providers = getIdentities(item).map((identity) => identity.provider);
+      throw new ErrorWithStatus(
+        `You previously signed up using ${providers.join(" or ")}. Please use that to sign in ` +
+          "instead, or link a password to your account.",
+        403,
+        "WRONG_PROVIDER"
+      );
+    }
+    if (await bcrypt.compare(password, item.password_hash)) {
+      await clearLoginFailures(email);
+      assertNotDisabled(item);
+
+      if (item.password_reset_required === true) {
+        throw new ErrorWithStatus(
+          "You must reset your password before signing in. Check your inbox for a reset token.",
+          403,
+          "PASSWORD_RESET_REQUIRED"
+        );
+      }
+
+      // Users created before email verification was added have no flag, and count as verified
+      if (EMAIL_VERIFICATION.required && item.email_verified === false) {
+        throw new ErrorWithStatus(
+          "Please verify your email before signing in. Check your inbox for a verification token.",
+          403,
+          "EMAIL_NOT_VERIFIED"
+        );
+      }
+
+      // Returning the found user ID
+      return item.user_id as string;
     }
   }
 
   // Unable to find user, throw error
-  throw new ErrorWithStatus("Authentication Error (Incorrect email or password)", 401);
+  await recordLoginFailure(email, sourceIp);
+  throw invalidCredentialsError();
 };
 
 /**
- * This function handles an OAuth user. If they are present in the DB, the DB will return their ID.
- * If they are not present, the DB will create a new ID for them. Additionally, if they are trying
- * to authenticate with the wrong provider, an error will be returned.
+ * This function handles an OAuth user, whose email and provider ID must already have been
+ * verified by the provider (see verifyIdToken in oauth.ts). If they are present in the DB, the DB
+ * will return their ID. If they are not present, the DB will create a new ID for them, with a
+ * username derived from the one provided if it is invalid or has been taken. Additionally, if they
+ * are trying to authenticate with a provider that has not been linked to their account, an error
+ * will be returned.
  * @param table the table to read from in DynamoDB
  * @param username the username provided by the request
  * @param provider the provider provided by the request
  * @param email the provider provided by the request
+ * @param providerId the user's ID at the provider (the sub claim of their ID token)
  * @returns the userID if exists
  */
 export const authenticateOauthUser = async (
   table: string,
   username: string,
   provider: string,
-  email: string
+  email: string,
+  providerId?: string
 ): Promise<string> => {
   validateTableName(table);
 
-  const command = new ScanCommand({
-    TableName: table,
+  if (provider === PASSWORD_PROVIDER) {
+    throw new ErrorWithStatus(
+      `'${PASSWORD_PROVIDER}' is not an OAuth provider`,
+      400,
+      "UNSUPPORTED_PROVIDER"
+    );
+  }
+
+  const item = await findUserByEmail(table, email);
+  if (item !== undefined) {
+    assertNotDisabled(item);
+
+    const identities = getIdentities(item);
+    const identity = identities.find((identity) => identity.provider === provider);
+
+    if (identity === undefined) {
+      const methods = identities.map((identity) => identity.provider);
+      if (item.password_hash) {
+        methods.push("your password");
+      }
+      throw new ErrorWithStatus(
+        `${provider} has not been linked to your account. Please sign in using ` +
+          `${methods.join(" or ")}, then link ${provider} to your account.`,
+        403,
+        "PROVIDER_NOT_LINKED"
+      );
+    }
+
+    // Accounts linked before subject IDs were recorded learn theirs on the next sign in
+    if (providerId !== undefined && identity.subject !== undefined) {
+      if (identity.subject !== providerId) {
+        throw new ErrorWithStatus(
+          `This ${provider} account is not the one linked to your account.`,
+          403,
+          "IDENTITY_MISMATCH"
+        );
+      }
+    } else if (providerId !== undefined) {
+      identity.subject = providerId;
+      await databaseEditUser(table, item.user_id, { "identities": identities });
+    }
+
+    return item.user_id as string;
+  }
+
+  // Provider names are not guaranteed to be valid or unique usernames, so fall back to generated
+  // ones if needed
+  return await addUserWithGeneratedUsername(table, username, email, {
+    provider,
+    subject: providerId,
   });
+};
 
-  const response = await docClient.send(command);
-  if (response.Items) {
-    for (const item of response.Items) {
-      if (item.email === email) {
-        if (item.password_hash) {
-          throw new ErrorWithStatus(
-            "You signed up with a password. Please sign in with your password instead.",
-            403
-          );
-        }
-        if (item.provider === provider) {
-          return item.user_id as string;
-        } else {
-          throw new ErrorWithStatus(
-            `You first signed up via ${item.provider}. Please use that provider instead.`,
-            403
-          );
-        }
+/**
+ * This function adds a user without a password, e.g. one who signed up with an OAuth provider.
+ * The username is derived from the one provided if it is invalid or has been taken.
+ * @param table the table to write to in DynamoDB
+ * @param username the username to try first
+ * @param email the email of the new user
+ * @param identity the OAuth identity of the new user, if they signed up with a provider
+ * @returns the user_id of the new user, throws a 409 error if no unique username could be found
+ */
+export const addUserWithGeneratedUsername = async (
+  table: string,
+  username: string,
+  email: string,
+  identity?: LinkedIdentity
+): Promise<string> => {
+  const candidates = oauthUsernameCandidates(username, OAUTH_USERNAME_ATTEMPTS);
+  for (const candidate of candidates) {
+    try {
+      return await databaseAddUser(
+        table,
+        candidate,
+        email,
+        undefined,
+        identity,
+        userFieldDefaults()
+      );
+    } catch (err) {
+      if (!(err instanceof ErrorWithStatus) || err.statusCode !== 409) {
+        throw err;
       }
     }
   }
 
-  return await databaseAddUser(table, username, email, undefined, provider);
+  throw new ErrorWithStatus(
+    "Unable to generate a unique username. Please try again.",
+    409,
+    "USERNAME_TAKEN"
+  );
 };
 
 /**
- * This function adds or modifies user info
+ * This function adds or modifies user info. Every field must be an editable field in USER_FIELDS,
+ * and every value must meet the field's constraints.
  * @param table the table to write to in DynamoDB
  * @param user_id the user_id provided by the request
  * @param info an object containing the fields to set and their respective values
@@ -161,30 +307,34 @@ export const authenticateOauthUser = async (
 export const setUserInfo = async (
   table: string,
   user_id: string,
-  info: { [field: string]: string }
+  info: { [field: string]: unknown }
 ) => {
   validateTableName(table);
-  // Iterate over the key-value pairs for validation checks
-  Object.entries(info).forEach(([field]) => {
-    // Ensuring each field is from the specified set
-    if (!ADDITIONAL_USER_FIELDS.includes(field.toLowerCase())) {
-      throw new ErrorWithStatus(`User field '${field}' is invalid`, 400);
-    }
+  validateUserFields(info);
 
-    // ADD ADDITIONAL VALIDATION CHECKS HERE, IF NEEDED
-  });
+  const { username, ...otherInfo } = info;
+
+  // Usernames are reserved atomically, so this throws if the username has been taken or if the
+  // user_id does not exist
+  if (username !== undefined) {
+    validateUsername(username);
+    await userStore.changeUsername(table, user_id, username);
+  }
 
   // Check user_id and Update user in database if user_id exists
-  try {
-    await databaseEditUser(table, user_id, info);
-  } catch (error: any) {
-    // Falls in here if invalid user ID
-    throw new ErrorWithStatus("User Id does not exist", 400);
+  if (Object.keys(otherInfo).length > 0) {
+    try {
+      await databaseEditUser(table, user_id, otherInfo);
+    } catch (error) {
+      // Falls in here if invalid user ID
+      throw new ErrorWithStatus("User Id does not exist", 400, "USER_NOT_FOUND");
+    }
   }
 };
 
 /**
- * This function gets a particular field of a user's info
+ * This function gets a particular field of a user's info. Every field must be a retrievable field
+ * in USER_FIELDS, and fields the user has never set are returned with their defaults.
  * @param table the table to read from in DynamoDB
  * @param user_id the user_id provided by the request
  * @param fields the fields provided by the request to get
@@ -194,33 +344,32 @@ export const getUserInfo = async (
   table: string,
   user_id: string,
   fields: string
-): Promise<{ [field: string]: string }> => {
+): Promise<UserAttributes> => {
   validateTableName(table);
 
   // Ensuring each field is from the specified set
   const fieldsArray = fields.split(",").map((field) => field.trim());
+  validateRetrievableFields(fieldsArray);
+
+  // Request only the fields asked for, and the attributes legacy values are worked out from
+  const sources = fieldsArray.flatMap((field) => LEGACY_FIELD_SOURCES[field] ?? []);
+  const item = await userStore.getUser(table, user_id, [...new Set([...fieldsArray, ...sources])]);
+
+  if (item === undefined) {
+    throw new ErrorWithStatus("Invalid User Id", 400, "USER_NOT_FOUND");
+  }
+
+  const withDefaults = withUserFieldDefaults(item, fieldsArray);
+  const filled: UserAttributes = {};
   fieldsArray.forEach((field) => {
-    if (!RETRIEVABLE_USER_FIELDS.includes(field.toLowerCase())) {
-      throw new ErrorWithStatus(`User field '${field}' is invalid`, 400);
+    if (withDefaults[field] !== undefined) {
+      filled[field] = withDefaults[field];
     }
   });
-
-  // Construct and send the command that requests the fields
-  const command = new GetCommand({
-    TableName: table,
-    Key: {
-      "user_id": user_id,
-    },
-    ProjectionExpression: fields,
-  });
-  const response = await docClient.send(command);
-
-  if (response.Item === undefined) {
-    throw new ErrorWithStatus("Invalid User Id", 400);
-  } else if (JSON.stringify(response.Item) === "{}") {
-    throw new ErrorWithStatus(`Uninitialised value/s: '${fields}'`, 400);
+  if (JSON.stringify(filled) === "{}") {
+    throw new ErrorWithStatus(`Uninitialised value/s: '${fields}'`, 400, "FIELDS_NOT_SET");
   } else {
-    return response.Item;
+    return filled;
   }
 };
 
@@ -243,32 +392,47 @@ export const changePassword = async (
 
   // (2) Check that newPassword is not the same as oldPassword
   if (oldPassword === newPassword) {
-    throw new ErrorWithStatus("New password cannot be the same as your old password", 400);
+    throw new ErrorWithStatus(
+      "New password cannot be the same as your old password",
+      400,
+      "PASSWORD_UNCHANGED"
+    );
   }
   // (3) Re-authenticate the User
   let userId: string;
   try {
     userId = await authenticateUser(table, email, oldPassword);
-  } catch (err: any) {
-    if (err.statusCode === 403) {
+  } catch (err) {
+    if (err instanceof ErrorWithStatus && err.code === "WRONG_PROVIDER") {
       throw new ErrorWithStatus(
         "You cannot change your password as you signed in with a third-party provider.",
-        403
+        403,
+        "WRONG_PROVIDER"
       );
     } else {
       throw err;
     }
   }
 
+  // (4) Check the new password against the password policy, including previous passwords
+  const user = (await userStore.getUser(table, userId)) ?? {};
+  const history = passwordHistory(user);
+  await enforcePasswordPolicy(newPassword, history);
+
   // Create a new hash
   const hashedPassword = await bcrypt.hash(newPassword, 10);
 
   // Change the password
-  await databaseEditUser(table, userId, { "password_hash": hashedPassword });
+  await databaseEditUser(table, userId, {
+    "password_hash": hashedPassword,
+    "password_history": history,
+  });
 };
 
 /**
- * This function delete's a user from the database
+ * This function deletes a user. The user is disabled straight away, but is only purged from the
+ * database once the grace period in DELETION_SETTINGS has passed, so that an administrator can
+ * restore them until then.
  * @param table the table to delete from in DynamoDB
  * @param userID the userID of the user to delete
  * @returns nothing
@@ -276,24 +440,38 @@ export const changePassword = async (
 export const deleteUser = async (table: string, userId: string) => {
   validateTableName(table);
 
-  // Delete command to the AWS SDK
-  const command = new DeleteCommand({
-    TableName: table,
-    Key: {
-      user_id: userId,
-    },
-    ConditionExpression: "attribute_exists(user_id)",
+  // Users that have already been deleted are treated as if they no longer exist
+  const item = await userStore.getUser(table, userId, ["user_id", "purge_at", "disabled"]);
+  if (item === undefined || item.purge_at !== undefined) {
+    throw new ErrorWithStatus("User Id does not exist", 400, "USER_NOT_FOUND");
+  }
+
+  // Remember whether an administrator had disabled the user, so that restoring them keeps it
+  const purgeAt = new Date();
+  purgeAt.setDate(purgeAt.getDate() + DELETION_SETTINGS.gracePeriodDays);
+  await userStore.scheduleDeletion(table, userId, purgeAt, {
+    "disabled": true,
+    "disabled_before_deletion": item.disabled === true,
   });
+  logger.info("User deleted", { userId, purgeAt: purgeAt.toISOString() });
+};
 
-  try {
-    await docClient.send(command);
-  } catch (e) {
-    throw new ErrorWithStatus("User Id does not exist", 400);
-  }
+/**
+ * This function gets a copy of everything stored about a user, for them to download
+ * @param table the table to read from in DynamoDB
+ * @param userId the user_id of the user
+ * @returns every attribute of the user except their secrets, such as their password hash
+ */
+export const exportUserData = async (table: string, userId: string) => {
+  validateTableName(table);
+
+  const item = await getUser(table, userId);
+  return { exportedAt: new Date().toISOString(), user: withoutSecrets(item) };
 };
 
 /**
- * This function sends a password reset token to a user's email
+ * This function sends a password reset token to a user's email, replacing any previous one. If
+ * PASSWORD_RESET_SETTINGS.linkUrl is set, the email also holds a signed link to reset it with.
  * @param table the table to delete from in DynamoDB
  * @param email the email of the user who wants to reset their password
  * @returns the token (for debugging purposes)
@@ -304,58 +482,66 @@ export const sendPasswordResetToken = async (table: string, email: string): Prom
 
   // (2) Validate email
   if (!EmailValidator.validate(email)) {
-    throw new ErrorWithStatus("Email does not exist", 400);
+    throw new ErrorWithStatus("Email does not exist", 400, "EMAIL_NOT_FOUND");
   }
 
   // (2) Get id of matching user
-  const command = new ScanCommand({
-    TableName: table,
-  });
+  const item = await findUserByEmail(table, email);
+  if (item === undefined) {
+    throw new ErrorWithStatus("Email does not exist", 400, "EMAIL_NOT_FOUND");
+  }
 
-  let userId = "";
-  const response = await docClient.send(command);
-  if (response.Items !== undefined) {
-    for (const item of response.Items) {
-      if (item.email === email) {
-        if (item.provider) {
-          throw new ErrorWithStatus(
-            // eslint-disable-next-line
-            `You previously signed up using ${item.provider}, so you do not have a password to reset.`,
-            403
-          );
-        }
-        userId = item.user_id as string;
-        break;
-      }
+  if (!item.password_hash) {
+    if (ENUMERATION_PROTECTION.enabled) {
+      await sendAccountNotice(item, "passwordResetAttempt");
     }
+    throw new ErrorWithStatus(
+      "You do not have a password to reset, as you signed up with a third-party provider.",
+      403,
+      "WRONG_PROVIDER"
+    );
   }
+  const userId = item.user_id as string;
 
-  if (userId === "") {
-    throw new ErrorWithStatus("Email does not exist", 400);
+  if (PASSWORD_RESET_SETTINGS.linkUrl !== undefined && !PASSWORD_RESET_SETTINGS.signingKey) {
+    throw new ErrorWithStatus("Reset links have not been configured", 500, "CONFIGURATION_ERROR");
   }
 
-  // (3) Generate Token and Expiry Date (1 hour in future)
+  // (3) Generate Token and Expiry Date
   const token = crypto.randomBytes(10).toString("hex");
-  const hashedToken = await bcrypt.hash(token, 10);
+  const tokenId = randomUUID();
+  const expiresAt = new Date(Date.now() + PASSWORD_RESET_SETTINGS.tokenMinutes * 60 * 1000);
 
-  const now = new Date();
-  now.setHours(now.getHours() + 1);
-  const expiryStr = now.toISOString();
-
-  // (4) Write token and expiry to database
-  await databaseEditUser(table, userId, { "resetToken": hashedToken, "tokenExpiry": expiryStr });
+  // (4) Store the token until it expires, replacing any previous one
+  await recordStore.put(
+    passwordResetKey(userId),
+    {
+      token_hash: await bcrypt.hash(token, 10),
+      token_id: tokenId,
+      attempts: 0,
+      expires: expiresAt.getTime(),
+    },
+    expiresAt
+  );
 
-  // (5) Send email with token
-  await sendTokenEmail(email, token);
+  // (5) Send email with token, and a signed link if links are enabled
+  if (PASSWORD_RESET_SETTINGS.linkUrl !== undefined) {
+    const link = passwordResetLink(email, userId, tokenId, expiresAt);
+    await sendTokenEmail(email, token, expiresAt, item.locale, link);
+  } else {
+    await sendTokenEmail(email, token, expiresAt, item.locale);
+  }
 
   return token;
 };
 
 /**
- * This function takes in a password reset token and changes the password
+ * This function takes in a password reset token and changes the password. Each token can only be
+ * used once, and is discarded after PASSWORD_RESET_SETTINGS.maxAttempts incorrect attempts.
  * @param table the table to delete from in DynamoDB
  * @param email the email of the user who wants to reset their password
- * @param token the password reset token the user has obtained
+ * @param token the password reset token the user has obtained, or the signed token from their
+ * reset link
  * @param newPassword the user's new password
  * @returns the token (for debugging purposes)
  */
@@ -370,75 +556,266 @@ export const resetPassword = async (
 
   // (2) Validate email
   if (!EmailValidator.validate(email)) {
-    throw new ErrorWithStatus("Email does not exist", 400);
+    throw new ErrorWithStatus("Email does not exist", 400, "EMAIL_NOT_FOUND");
   }
 
-  // (2) Check that email exists, token exists, AND token not expired
-  const command = new ScanCommand({
-    TableName: table,
-  });
+  // (2) Check that email exists
+  const item = await findUserByEmail(table, email);
+  if (item === undefined) {
+    throw new ErrorWithStatus("Email does not exist", 400, "EMAIL_NOT_FOUND");
+  }
 
-  let userId = "";
-  const response = await docClient.send(command);
-  if (response.Items !== undefined) {
-    for (const item of response.Items) {
-      if (item.email === email) {
-        // Check if user is registered with OAuth
-        if (item.provider) {
-          throw new ErrorWithStatus(
-            // eslint-disable-next-line
-            `You previously signed up using ${item.provider}, so you do not have a password to reset.`,
-            403
-          );
-        }
-
-        // Check if new password same as original password
-        if (await bcrypt.compare(newPassword, item.password_hash)) {
-          throw new ErrorWithStatus("New password cannot be the same as your old password", 400);
-        }
-        // Check if no token exists
-        if (
-          item.resetToken === undefined ||
-          item.tokenExpiry === undefined ||
-          item.resetToken === "" ||
-          item.tokenExpiry === ""
-        ) {
-          throw new ErrorWithStatus("Invalid Token", 400);
-        }
-
-        // Check if existing token has expired
-        const now = new Date();
-        const expiry = new Date(item.tokenExpiry);
-        if (now >= expiry) {
-          await databaseEditUser(table, item.user_id, { "resetToken": "", "tokenExpiry": "" });
-          throw new ErrorWithStatus("Invalid Token", 400);
-        }
-
-        // Check if token matches
-        if (!(await bcrypt.compare(token, item.resetToken))) {
-          throw new ErrorWithStatus("Invalid Token", 400);
-        }
-
-        userId = item.user_id as string;
-        break;
-      }
-    }
+  // Check if user is registered with OAuth
+  if (!item.password_hash) {
+    throw new ErrorWithStatus(
+      "You do not have a password to reset, as you signed up with a third-party provider.",
+      403,
+      "WRONG_PROVIDER"
+    );
   }
 
-  if (userId === "") {
-    throw new ErrorWithStatus("Email does not exist", 400);
+  const userId = item.user_id as string;
+
+  // (3) Check the token, before anything that would reveal the current password
+  await checkPasswordResetToken(userId, token);
+
+  // Check if new password same as original password
+  if (await bcrypt.compare(newPassword, item.password_hash)) {
+    throw new ErrorWithStatus(
+      "New password cannot be the same as your old password",
+      400,
+      "PASSWORD_UNCHANGED"
+    );
   }
 
-  // (3) Change Password
+  // (4) Check the new password against the password policy, including previous passwords
+  const history = passwordHistory(item);
+  await enforcePasswordPolicy(newPassword, history);
+
+  // (5) Change Password, using up the token
   const hashedPassword = await bcrypt.hash(newPassword, 10);
   await databaseEditUser(table, userId, {
-    "resetToken": "",
-    "tokenExpiry": "",
     "password_hash": hashedPassword,
+    "password_history": history,
+    "password_reset_required": false,
   });
+  await recordStore.delete(passwordResetKey(userId));
+
+  // (6) Lift any lockout from failed logins
+  await clearLoginFailures(email);
+
+  // (7) Send email that Password has changed
+  await sendPasswordResetEmail(email, item.locale);
+};
+
+/**
+ * This function emails a user a new token to verify their email with, replacing any previous one
+ * @param table the table to read from in DynamoDB
+ * @param userId the user_id of the user
+ * @param email the email to verify
+ * @param locale the user's locale, for the language of the email
+ * @returns the token (for debugging purposes)
+ */
+export const sendEmailVerificationToken = async (
+  table: string,
+  userId: string,
+  email: string,
+  locale?: string
+): Promise<string> => {
+  validateTableName(table);
+
+  // (1) Generate Token and Expiry Date
+  const token = crypto.randomBytes(10).toString("hex");
+  const hashedToken = await bcrypt.hash(token, 10);
+  const expiry = new Date(Date.now() + EMAIL_VERIFICATION.tokenHours * 60 * 60 * 1000);
+
+  // (2) Store the token until it expires
+  await recordStore.put(verificationKey(userId), { token_hash: hashedToken }, expiry);
+
+  // (3) Send email with token
+  await sendVerificationEmail(email, token, expiry, locale);
+
+  return token;
+};
+
+/**
+ * This function resends a verification token to a user whose email has not been verified yet.
+ * Resends are limited per email, so that this cannot be used to flood someone's inbox.
+ * @param table the table to read from in DynamoDB
+ * @param email the email to verify
+ * @returns the token (for debugging purposes)
+ */
+export const resendEmailVerificationToken = async (
+  table: string,
+  email: string
+): Promise<string> => {
+  // (1) Validate Table name and email
+  validateTableName(table);
+  if (!EmailValidator.validate(email)) {
+    throw new ErrorWithStatus("Email does not exist", 400, "EMAIL_NOT_FOUND");
+  }
+
+  // (2) Rate limit resends, whether or not the email has an account
+  const windowEnd = new Date(Date.now() + EMAIL_VERIFICATION.resendWindowSeconds * 1000);
+  const resends = await recordStore.increment(`verify-resend#${email}`, "count", windowEnd);
+  if (resends > EMAIL_VERIFICATION.maxResends) {
+    const error = new ErrorWithStatus(
+      "Too many verification emails have been requested. Please try again later.",
+      429,
+      "RATE_LIMITED"
+    );
+    error.headers = { "Retry-After": `${EMAIL_VERIFICATION.resendWindowSeconds}` };
+    throw error;
+  }
+
+  // (3) Get matching user
+  const item = await findUserByEmail(table, email);
+  if (item === undefined) {
+    throw new ErrorWithStatus("Email does not exist", 400, "EMAIL_NOT_FOUND");
+  }
+  if (item.email_verified !== false) {
+    throw new ErrorWithStatus("Email has already been verified", 400, "EMAIL_ALREADY_VERIFIED");
+  }
+
+  // (4) Send a new token
+  return await sendEmailVerificationToken(table, item.user_id, email, item.locale);
+};
+
+/**
+ * This function verifies a user's email with the token that was emailed to them
+ * @param table the table to read from/write to in DynamoDB
+ * @param email the email being verified
+ * @param token the verification token the user has obtained
+ * @returns nothing
+ */
+export const verifyEmail = async (table: string, email: string, token: string) => {
+  // (1) Validate Table name and email
+  validateTableName(table);
+  if (!EmailValidator.validate(email)) {
+    throw new ErrorWithStatus("Email does not exist", 400, "EMAIL_NOT_FOUND");
+  }
+
+  // (2) Get matching user
+  const item = await findUserByEmail(table, email);
+  if (item === undefined) {
+    throw new ErrorWithStatus("Email does not exist", 400, "EMAIL_NOT_FOUND");
+  }
+  if (item.email_verified !== false) {
+    throw new ErrorWithStatus("Email has already been verified", 400, "EMAIL_ALREADY_VERIFIED");
+  }
+
+  // (3) Check that the token exists, has not expired, and matches
+  const record = await recordStore.get<VerificationRecord>(verificationKey(item.user_id));
+  if (record === undefined || !(await bcrypt.compare(token, record.token_hash))) {
+    throw invalidTokenError();
+  }
 
-  // (4) Send email that Password has changed
-  await sendPasswordResetEmail(email);
+  // (4) Mark the email as verified, and remove the token so it cannot be used again
+  await databaseEditUser(table, item.user_id, { "email_verified": true });
+  await recordStore.delete(verificationKey(item.user_id));
+};
+
+/**
+ * This function links another sign-in method to a user's account. OAuth providers are matched on
+ * the account's email, so the provider account must use the same email.
+ * @param table the table to read from/write to in DynamoDB
+ * @param userId the user_id of the user
+ * @param provider the OAuth provider to link, or "password" to add a password
+ * @param credentials the password to add, or the identity verified by the OAuth provider
+ * @returns nothing
+ */
+export const linkProvider = async (
+  table: string,
+  userId: string,
+  provider: string,
+  credentials: { password?: string; email?: string; providerId?: string }
+) => {
+  validateTableName(table);
+
+  const item = await getUser(table, userId);
+
+  if (provider === PASSWORD_PROVIDER) {
+    if (item.password_hash) {
+      throw new ErrorWithStatus(
+        "A password has already been linked to your account",
+        409,
+        "PROVIDER_ALREADY_LINKED"
+      );
+    }
+    if (credentials.password === undefined) {
+      throw new ErrorWithStatus("password must be passed in body to link a password", 400);
+    }
+    const history = passwordHistory(item);
+    await enforcePasswordPolicy(credentials.password, history);
+    const hashedPassword = await bcrypt.hash(credentials.password, 10);
+    await databaseEditUser(table, userId, {
+      "password_hash": hashedPassword,
+      "password_history": history,
+    });
+    return;
+  }
+
+  if (credentials.email !== item.email) {
+    throw new ErrorWithStatus(
+      `Your ${provider} account must use the same email as this account to be linked`,
+      400,
+      "IDENTITY_MISMATCH"
+    );
+  }
+
+  const identities = getIdentities(item);
+  if (identities.some((identity) => identity.provider === provider)) {
+    throw new ErrorWithStatus(
+      `${provider} has already been linked to your account`,
+      409,
+      "PROVIDER_ALREADY_LINKED"
+    );
+  }
+  identities.push({ provider, subject: credentials.providerId });
+  await databaseEditUser(table, userId, { "identities": identities });
+};
+
+/**
+ * This function unlinks a sign-in method from a user's account. The last sign-in method cannot be
+ * unlinked, as the user would be unable to sign in.
+ * @param table the table to read from/write to in DynamoDB
+ * @param userId the user_id of the user
+ * @param provider the OAuth provider to unlink, or "password" to remove the password
+ * @returns nothing
+ */
+export const unlinkProvider = async (table: string, userId: string, provider: string) => {
+  validateTableName(table);
+
+  const item = await getUser(table, userId);
+  const identities = getIdentities(item);
+  const methodCount = identities.length + (item.password_hash ? 1 : 0);
+
+  const linked =
+    provider === PASSWORD_PROVIDER
+      ? !!item.password_hash
+      : identities.some((identity) => identity.provider === provider);
+  if (!linked) {
+    throw new ErrorWithStatus(
+      `${provider} has not been linked to your account`,
+      400,
+      "PROVIDER_NOT_LINKED"
+    );
+  }
+  if (methodCount <= 1) {
+    throw new ErrorWithStatus(
+      "You cannot unlink your only sign-in method. Link another one first.",
+      400,
+      "LAST_SIGN_IN_METHOD"
+    );
+  }
+
+  if (provider === PASSWORD_PROVIDER) {
+    await databaseEditUser(table, userId, { "password_hash": "" });
+  } else {
+    await databaseEditUser(table, userId, {
+      "identities": identities.filter((identity) => identity.provider !== provider),
+    });
+  }
 };
 
 // HELPERS
@@ -455,11 +832,213 @@ export function validateTableName(table: string) {
 }
 
 /**
- * This function adds a user to a specified DynamoDB table
+ * This function gets the OAuth identities linked to a user
+ * @param item the user item
+ * @returns the linked identities. Users created before identities were added have a single
+ * `provider` instead, which is treated as their only identity.
+ */
+export function getIdentities(item: UserItem): LinkedIdentity[] {
+  if (Array.isArray(item.identities)) {
+    return item.identities;
+  }
+  return item.provider ? [{ provider: item.provider }] : [];
+}
+
+/**
+ * This function describes the ways a user can sign in, for emails sent to them
+ * @param item the user item
+ * @returns e.g. "a password or google"
+ */
+function describeSignInMethods(item: UserItem): string {
+  const methods = getIdentities(item).map((identity) => identity.provider);
+  if (item.password_hash) {
+    methods.unshift("a password");
+  }
+  return methods.join(" or ");
+}
+
+/**
+ * This function checks that a user has not been deleted, or disabled by an administrator
+ * @param item the user item
+ * @returns nothing, throws a 403 error if the user has been deleted or disabled
+ */
+export function assertNotDisabled(item: UserItem) {
+  if (item.purge_at !== undefined) {
+    throw new ErrorWithStatus("This account has been deleted", 403, "ACCOUNT_DELETED");
+  }
+  if (item.disabled === true) {
+    throw new ErrorWithStatus("This account has been disabled", 403, "ACCOUNT_DISABLED");
+  }
+}
+
+/**
+ * This function creates the error returned when an email and password do not match a user
+ * @returns the error
+ */
+export function invalidCredentialsError(): ErrorWithStatus {
+  return new ErrorWithStatus(
+    "Authentication Error (Incorrect email or password)",
+    401,
+    "INVALID_CREDENTIALS"
+  );
+}
+
+/**
+ * This function creates the error returned when a password reset or email verification token is
+ * invalid or expired
+ * @returns the error
+ */
+export function invalidTokenError(): ErrorWithStatus {
+  return new ErrorWithStatus("Invalid Token", 400, "INVALID_TOKEN");
+}
+
+/**
+ * This function gets a full user item
+ * @param table the name of a table
+ * @param userId the user_id of the user
+ * @returns the user item, throws error if the user does not exist
+ */
+async function getUser(table: string, userId: string): Promise<UserItem> {
+  const item = await userStore.getUser(table, userId);
+  if (item === undefined) {
+    throw new ErrorWithStatus("User Id does not exist", 400, "USER_NOT_FOUND");
+  }
+  return item;
+}
+
+/**
+ * This function checks a password reset token against the latest one emailed to a user, counting
+ * incorrect attempts against it
+ * @param userId the user_id of the user
+ * @param token the token from the email, or the signed token from the reset link
+ * @returns nothing, throws a 400 error if the token is invalid or expired, or has been tried too
+ * many times
+ */
+async function checkPasswordResetToken(userId: string, token: string) {
+  const key = passwordResetKey(userId);
+  const record = await recordStore.get<PasswordResetRecord>(key);
+  if (record === undefined) {
+    throw invalidTokenError();
+  }
+
+  // Count the attempt before checking it, so that concurrent guesses cannot exceed the limit.
+  // Keep the token's original expiry, rather than extending it on every attempt.
+  const expiresAt = new Date(record.expires);
+  const attempts = await recordStore.increment(key, "attempts", expiresAt);
+  if (attempts > PASSWORD_RESET_SETTINGS.maxAttempts) {
+    await recordStore.delete(key);
+    throw new ErrorWithStatus(
+      "Too many incorrect tokens. Please request a new one.",
+      400,
+      "INVALID_TOKEN"
+    );
+  }
+
+  const valid = isSignedToken(token)
+    ? isValidResetLinkToken(token, userId, record.token_id)
+    : await bcrypt.compare(token.trim(), record.token_hash);
+  if (!valid) {
+    throw invalidTokenError();
+  }
+
+  // Only incorrect tokens count, so that users can try again if their new password is rejected
+  await recordStore.update(key, { attempts: attempts - 1 }, expiresAt);
+}
+
+/**
+ * This function builds the link to reset a password with, by adding the email and a signed token
+ * to the query string of PASSWORD_RESET_SETTINGS.linkUrl. The signed token identifies the reset
+ * token it was sent with, so it stops working once that one is used or replaced.
+ * @param email the email of the user
+ * @param userId the user_id of the user
+ * @param tokenId the ID of the reset token
+ * @param expiresAt when the reset token expires
+ * @returns the link
+ */
+function passwordResetLink(email: string, userId: string, tokenId: string, expiresAt: Date) {
+  const signed = signJwt(
+    {
+      sub: userId,
+      jti: tokenId,
+      aud: PASSWORD_RESET_SETTINGS.audience,
+      exp: Math.floor(expiresAt.getTime() / 1000),
+    },
+    PASSWORD_RESET_SETTINGS.signingKey!
+  );
+
+  const url = new URL(PASSWORD_RESET_SETTINGS.linkUrl!);
+  url.searchParams.set("email", email);
+  url.searchParams.set("token", signed);
+  return url.toString();
+}
+
+/**
+ * This function checks the signed token from a reset link
+ * @param token the signed token
+ * @param userId the user_id of the user resetting their password
+ * @param tokenId the ID of the user's latest reset token
+ * @returns whether the token was signed by this service for that reset token
+ */
+function isValidResetLinkToken(token: string, userId: string, tokenId: string): boolean {
+  if (!PASSWORD_RESET_SETTINGS.signingKey) {
+    return false;
+  }
+  try {
+    const payload = verifyJwt(token, {
+      secret: PASSWORD_RESET_SETTINGS.signingKey,
+      audience: PASSWORD_RESET_SETTINGS.audience,
+    });
+    return payload.sub === userId && payload.jti === tokenId;
+  } catch (err) {
+    return false;
+  }
+}
+
+// Emailed tokens are hex, while signed tokens are JWTs
+function isSignedToken(token: string): boolean {
+  return token.includes(".");
+}
+
+/**
+ * This function gets the key of the record holding a user's password reset token
+ * @param userId the user_id of the user
+ * @returns the record key
+ */
+function passwordResetKey(userId: string): string {
+  return `password-reset#${userId}`;
+}
+
+/**
+ * This function gets the key of the record holding a user's email verification token
+ * @param userId the user_id of the user
+ * @returns the record key
+ */
+function verificationKey(userId: string): string {
+  return `verify-email#${userId}`;
+}
+
+/**
+ * This function looks up a user by their email. On DynamoDB this queries the email GSI, rather
+ * than scanning the table
+ * @param table the name of a table
+ * @param email the email of the user to find
+ * @returns the full user item, or undefined if no user has that email
+ */
+export const findUserByEmail = async (
+  table: string,
+  email: string
+): Promise<UserItem | undefined> => {
+  return await userStore.findUserByEmail(table, email);
+};
+
+/**
+ * This function adds a user to the user store. Throws a 409 error if the username has been taken.
  * @param table the name of a table
  * @param username the username of the new row
  * @param passwordHash the hashed password of the new row
  * @param email the email of the new row
+ * @param identity the OAuth identity of the new row, if they signed up with a provider
+ * @param fields any other fields of the new row, which must already have been validated
  * @returns user_id of new user
  */
 export const databaseAddUser = async (
@@ -467,25 +1046,25 @@ export const databaseAddUser = async (
   username: string,
   email: string,
   passwordHash?: string,
-  provider?: string
+  identity?: LinkedIdentity,
+  fields: UserAttributes = {}
 ): Promise<string> => {
   const newIdVal = randomUUID() as string;
-  const command = new PutCommand({
-    TableName: table,
-    Item: {
-      user_id: newIdVal,
-      username: username,
-      password_hash: passwordHash,
-      provider: provider,
-      email: email,
-    },
+  await userStore.addUser(table, {
+    ...fields,
+    user_id: newIdVal,
+    username: username,
+    password_hash: passwordHash,
+    identities: identity === undefined ? [] : [identity],
+    email: email,
+    // OAuth providers have already verified the email
+    email_verified: identity !== undefined,
   });
-  await docClient.send(command);
   return newIdVal;
 };
 
 /**
- * This function modifies an existing user in the Dynamo DB table
+ * This function modifies an existing user in the user store
  * @param table the name of a table
  * @param userID the user_id of the user to modify
  * @param infoValues the fields to change and their respective values
@@ -494,100 +1073,104 @@ export const databaseAddUser = async (
 export const databaseEditUser = async (
   table: string,
   userID: string,
-  infoValues: { [key: string]: string }
+  infoValues: { [key: string]: unknown }
 ) => {
-  const updateExpressionParts = Object.keys(infoValues)
-    .map((infoName) => `${infoName} = :${infoName}`)
-    .join(", ");
-
-  const expressionAttributeValues = Object.entries(infoValues).reduce(
-    (acc, [infoName, infoValue]) => ({
-      ...acc,
-      [`:${infoName}`]: infoValue,
-    }),
-    {}
-  );
-
-  const command = new UpdateCommand({
-    TableName: table,
-    Key: {
-      user_id: userID,
-    },
-    UpdateExpression: `set ${updateExpressionParts}`,
-    ConditionExpression: "attribute_exists(user_id)",
-    ExpressionAttributeValues: expressionAttributeValues,
-  });
-
-  try {
-    await docClient.send(command);
-  } catch (e) {
-    throw new ErrorWithStatus("User Id does not exist", 400);
-  }
+  // Throws if the user does not exist
+  await userStore.editUser(table, userID, infoValues);
 };
 
 /**
  * This function sends an email containing the password reset token
  * @param email the email of the user who wants to reset their password
  * @param token the password reset token
+ * @param expiresAt when the token expires
+ * @param locale the user's locale, for the language of the email
+ * @param link the signed link to reset the password with, if reset links are enabled
  */
-export const sendTokenEmail = async (email: string, token: string) => {
-  // FEEL FREE TO CHANGE THIS EMAIL TEMPLATE
-  const textStyle = `text-align: center; font-family: Arial, Helvetica, sans-serif; width: 50%; 
-  font-weight: bold;`;
-  const htmlContents: string = `
-    <div align="center">
-      <h2 style="${textStyle} font-size: x-large;">Here is Your Password Reset Token</h2>
-      <p style="${textStyle} font-size: larger;">
-        ${token}
-      </p>
-      <p style="${textStyle} font-size: medium;">
-        Please copy this token into your application to reset your password. If you didn't request a
-        password reset, you can safely ignore this email.
-      </p>
-    </div>`;
-
-  const message = {
-    from: process.env.MAIL_USERNAME,
-    to: email,
-    subject: "Password Reset Request 🔑",
-    html: htmlContents,
-  };
-
-  try {
-    await emailTransport.sendMail(message);
-  } catch (err: any) {
-    logger.error(err);
-    throw new ErrorWithStatus("Email failed to send", 500);
+export const sendTokenEmail = async (
+  email: string,
+  token: string,
+  expiresAt: Date,
+  locale?: string,
+  link?: string
+) => {
+  const variables = { token, expiresInMinutes: PASSWORD_RESET_SETTINGS.tokenMinutes };
+  if (link !== undefined) {
+    await sendEmail(email, "passwordResetLink", locale, { ...variables, link }, expiresAt);
+  } else {
+    await sendEmail(email, "passwordReset", locale, variables, expiresAt);
   }
 };
 
+/**
+ * This function sends an email containing the email verification token
+ * @param email the email to verify
+ * @param token the email verification token
+ * @param expiresAt when the token expires
+ * @param locale the user's locale, for the language of the email
+ */
+export const sendVerificationEmail = async (
+  email: string,
+  token: string,
+  expiresAt: Date,
+  locale?: string
+) => {
+  await sendEmail(
+    email,
+    "emailVerification",
+    locale,
+    { token, expiresInHours: EMAIL_VERIFICATION.tokenHours },
+    expiresAt
+  );
+};
+
 /**
  * This function sends an email notifying a user that their password has been reset
  * @param email the email for the user whose password has been reset
+ * @param locale the user's locale, for the language of the email
  */
-export const sendPasswordResetEmail = async (email: string) => {
-  // FEEL FREE TO CHANGE THIS EMAIL TEMPLATE
-  const textStyle = `text-align: center; font-family: Arial, Helvetica, sans-serif; width: 50%; 
-  font-weight: bold;`;
-  const htmlContents: string = `
-    <div align="center">
-      <h2 style="${textStyle} font-size: x-large;">Your Password Has Been Reset</h2>
-      <p style="${textStyle} font-size: larger;">
-        You may now login with your new password.
-      </p>
-    </div>`;
-
-  const message = {
-    from: process.env.MAIL_USERNAME,
-    to: email,
-    subject: "Password Reset Confirmation 🔑",
-    html: htmlContents,
-  };
+export const sendPasswordResetEmail = async (email: string, locale?: string) => {
+  await sendEmail(email, "passwordResetConfirmation", locale, {});
+};
 
-  try {
-    await emailTransport.sendMail(message);
-  } catch (err: any) {
-    logger.error(err);
-    throw new ErrorWithStatus("Email failed to send", 500);
+/**
+ * This function emails the owner of an account about a request made with their email, whose
+ * response did not reveal that the account exists (see src/enumeration.ts). Notices are limited
+ * per account, so that they cannot be used to flood someone's inbox, and further ones are dropped.
+ * @param item the user item of the account
+ * @param type the kind of notice
+ * @returns nothing
+ */
+export const sendAccountNotice = async (item: UserItem, type: AccountNoticeType) => {
+  const windowEnd = new Date(Date.now() + ENUMERATION_PROTECTION.noticeWindowSeconds * 1000);
+  const notices = await recordStore.increment(`account-notice#${item.user_id}`, "count", windowEnd);
+  if (notices > ENUMERATION_PROTECTION.maxNotices) {
+    logger.info("Dropped account notice", { userId: item.user_id, type });
+    return;
   }
+
+  await sendEmail(item.email, type, item.locale, { signInMethods: describeSignInMethods(item) });
+};
+
+/**
+ * This function renders an email from its template and sends it. Every email the service sends
+ * goes through here. Emails that cannot be sent are queued to be retried, rather than failing the
+ * request.
+ * @param email the email address to send to
+ * @param type the kind of email
+ * @param locale the user's locale, for the language of the email
+ * @param variables the values of the template's placeholders
+ * @param expiresAt when the token or link in the email expires, if it has one
+ * @returns nothing
+ */
+export const sendEmail = async (
+  email: string,
+  type: EmailType,
+  locale: string | undefined,
+  variables: EmailVariables,
+  expiresAt?: Date
+) => {
+  const { subject, html, text } = renderEmail(type, locale, variables);
+
+  await deliverMail({ from: EMAIL_SETTINGS.from, to: email, subject, html, text }, expiresAt);
 };
@@ -0,0 +1,215 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { EMAIL_SETTINGS } from "./constants";
+import { EmailTemplates, EmailType, EmailVariables, RenderedEmail } from "./types/email";
+import { PASSWORD_RESET_TEMPLATES } from "./templates/passwordReset";
+import { PASSWORD_RESET_LINK_TEMPLATES } from "./templates/passwordResetLink";
+import { EMAIL_VERIFICATION_TEMPLATES } from "./templates/emailVerification";
+import { PASSWORD_RESET_CONFIRMATION_TEMPLATES } from "./templates/passwordResetConfirmation";
+import { SIGN_IN_CODE_TEMPLATES } from "./templates/signInCode";
+import { MAGIC_LINK_TEMPLATES } from "./templates/magicLink";
+import { REGISTRATION_ATTEMPT_TEMPLATES } from "./templates/registrationAttempt";
+import { PASSWORD_RESET_ATTEMPT_TEMPLATES } from "./templates/passwordResetAttempt";
+import { PASSWORD_SIGN_IN_ATTEMPT_TEMPLATES } from "./templates/passwordSignInAttempt";
+
+// Every email the service sends is rendered from a template, so that teams can rebrand and
+// translate them without changing any code. Templates are HTML documents whose <title> is the
+// subject, with {{variable}} placeholders. The templates in src/templates are bundled with the
+// service, and files in EMAIL_SETTINGS.templateDir take precedence over them.
+
+// The bundled templates of each kind of email
+const BUNDLED_TEMPLATES: { [type in EmailType]: EmailTemplates } = {
+  passwordReset: PASSWORD_RESET_TEMPLATES,
+  passwordResetLink: PASSWORD_RESET_LINK_TEMPLATES,
+  emailVerification: EMAIL_VERIFICATION_TEMPLATES,
+  passwordResetConfirmation: PASSWORD_RESET_CONFIRMATION_TEMPLATES,
+  signInCode: SIGN_IN_CODE_TEMPLATES,
+  magicLink: MAGIC_LINK_TEMPLATES,
+  registrationAttempt: REGISTRATION_ATTEMPT_TEMPLATES,
+  passwordResetAttempt: PASSWORD_RESET_ATTEMPT_TEMPLATES,
+  passwordSignInAttempt: PASSWORD_SIGN_IN_ATTEMPT_TEMPLATES,
+};
+
+// e.g. {{token}} or {{ token }}
+const PLACEHOLDER = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+const HTML_ESCAPES: { [character: string]: string } = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+const HTML_ENTITIES: { [entity: string]: string } = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+// Stands in for line breaks while the rest of the whitespace is collapsed
+const LINE_BREAK = "\u0000";
+
+// Templates read from the template directory, by file name. Null if the file does not exist.
+const templateFiles = new Map<string, string | null>();
+
+/**
+ * This function renders an email from its template, in the user's locale if there is a template
+ * for it. Locales fall back to their language (e.g. pt-BR to pt), then to
+ * EMAIL_SETTINGS.defaultLocale.
+ * @param type the kind of email
+ * @param locale the user's locale, e.g. from their locale field
+ * @param variables the values of the template's placeholders. They are HTML escaped.
+ * @returns the subject, HTML and plain-text bodies, throws an error if there is no template or it
+ * uses a variable that was not given
+ */
+export function renderEmail(
+  type: EmailType,
+  locale: string | undefined,
+  variables: EmailVariables
+): RenderedEmail {
+  const { template, locale: templateLocale } = findTemplate(type, locale);
+
+  const title = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(template);
+  if (title === null) {
+    throw new Error(`The ${templateLocale} ${type} email template has no <title> for the subject`);
+  }
+
+  const html = interpolate(type, template, variables, escapeHtml);
+  const subject = interpolate(type, decodeEntities(title[1]), variables, String);
+
+  return {
+    subject: collapseWhitespace(subject),
+    html,
+    text: toPlainText(html),
+    locale: templateLocale,
+  };
+}
+
+/**
+ * This function finds the template to render an email with
+ * @param type the kind of email
+ * @param locale the user's locale
+ * @returns the template and its locale, throws an error if there is none for the locale or the
+ * default locale
+ */
+function findTemplate(type: EmailType, locale: string | undefined) {
+  for (const candidate of localeFallbacks(locale)) {
+    const template = readTemplateFile(type, candidate) ?? BUNDLED_TEMPLATES[type][candidate];
+    if (template !== undefined) {
+      return { template, locale: candidate };
+    }
+  }
+  throw new Error(`There is no ${type} email template for ${EMAIL_SETTINGS.defaultLocale}`);
+}
+
+/**
+ * This function lists the locales to look for templates in, most specific first
+ * @param locale the user's locale, e.g. pt-BR
+ * @returns the locales, e.g. pt-BR, pt, then the default locale
+ */
+function localeFallbacks(locale: string | undefined): string[] {
+  const locales: string[] = [];
+
+  // Users' locales may be in any case, e.g. pt-br, so use the canonical form, e.g. pt-BR
+  let canonical: string | undefined;
+  try {
+    canonical = locale === undefined ? undefined : Intl.getCanonicalLocales(locale)[0];
+  } catch (err) {
+    canonical = undefined;
+  }
+
+  if (canonical !== undefined) {
+    const subtags = canonical.split("-");
+    for (let i = subtags.length; i > 0; i--) {
+      locales.push(subtags.slice(0, i).join("-"));
+    }
+  }
+  locales.push(EMAIL_SETTINGS.defaultLocale);
+
+  return [...new Set(locales)];
+}
+
+/**
+ * This function reads a template from the template directory, e.g. passwordReset.pt-BR.html
+ * @param type the kind of email
+ * @param locale the locale of the template
+ * @returns the template, or undefined if there is no template directory or no such file
+ */
+function readTemplateFile(type: EmailType, locale: string): string | undefined {
+  if (EMAIL_SETTINGS.templateDir === undefined) {
+    return undefined;
+  }
+
+  const file = join(EMAIL_SETTINGS.templateDir, `${type}.${locale}.html`);
+  if (!templateFiles.has(file)) {
+    templateFiles.set(file, existsSync(file) ? readFileSync(file, "utf8") : null);
+  }
+  return templateFiles.get(file) ?? undefined;
+}
+
+/**
+ * This function replaces the placeholders in a template with their values
+ * @param type the kind of email, for the error message
+ * @param template the template
+ * @param variables the values of the placeholders
+ * @param format how to write each value into the template
+ * @returns the filled in template, throws an error if a placeholder has no value
+ */
+function interpolate(
+  type: EmailType,
+  template: string,
+  variables: EmailVariables,
+  format: (value: string) => string
+): string {
+  return template.replace(PLACEHOLDER, (placeholder, name: string) => {
+    if (!Object.prototype.hasOwnProperty.call(variables, name)) {
+      throw new Error(`The ${type} email template uses ${placeholder}, which was not given`);
+    }
+    return format(String(variables[name]));
+  });
+}
+
+/**
+ * This function generates the plain-text alternative of an HTML email. Headings and paragraphs
+ * are separated by blank lines, and links are written out with their URLs.
+ * @param html the HTML body
+ * @returns the plain-text body
+ */
+function toPlainText(html: string): string {
+  const text = html
+    .replace(/<(head|style|script)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, "$2 ($1)")
+    .replace(/<br\s*\/?>/gi, LINE_BREAK)
+    .replace(/<\/(p|div|h[1-6]|li|tr|table)>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeEntities(text)
+    .split(/\n\s*\n/)
+    .map((paragraph) => collapseWhitespace(paragraph).split(LINE_BREAK).join("\n"))
+    .filter((paragraph) => paragraph !== "")
+    .join("\n\n");
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (character) => HTML_ESCAPES[character]);
+}
+
+function decodeEntities(html: string): string {
+  return html.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith("#x") || name.startsWith("#X")) {
+      return String.fromCodePoint(parseInt(name.slice(2), 16));
+    }
+    if (name.startsWith("#")) {
+      return String.fromCodePoint(parseInt(name.slice(1), 10));
+    }
+    return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
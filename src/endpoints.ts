@@ -1,18 +1,115 @@
 import { LambdaFunctionURLEvent, APIGatewayProxyResult } from "aws-lambda";
 import { ErrorWithStatus } from "./types/errorWithStatus";
-import { headers, logger } from ".";
-import { tableName } from "./constants";
+import { headers, routes } from ".";
+import {
+  ENUMERATION_PROTECTION,
+  PASSWORD_PROVIDER,
+  TABLE_NAME as tableName,
+  USERNAME_RULES,
+} from "./constants";
 import {
   authenticateOauthUser,
   authenticateUser,
   changePassword,
   deleteUser,
+  exportUserData,
   getUserInfo,
+  linkProvider,
   registerUser,
+  resendEmailVerificationToken,
   resetPassword,
   sendPasswordResetToken,
   setUserInfo,
+  unlinkProvider,
+  verifyEmail,
 } from "./dynamo";
+import { issueTokens, refreshTokens, revokeRefreshToken } from "./tokens";
+import { assertSubject, AuthContext } from "./authorization";
+import { verifyIdToken } from "./oauth";
+import { getQuery, parseBody } from "./jsonSchema";
+import { audited, AuditSuccess, getAuditHistory } from "./audit";
+import {
+  CONCEALED_REGISTRATION_ERRORS,
+  CONCEALED_RESET_ERRORS,
+  CONCEALED_RESET_REQUEST_ERRORS,
+  CONCEALED_PASSWORDLESS_REQUEST_ERRORS,
+  CONCEALED_SIGN_IN_ERRORS,
+  CONCEALED_VERIFICATION_ERRORS,
+  CONCEALED_VERIFICATION_REQUEST_ERRORS,
+  withoutEnumeration,
+} from "./enumeration";
+import {
+  completePasswordlessSignIn,
+  PasswordlessMethod,
+  startPasswordlessSignIn,
+} from "./passwordless";
+import { buildOpenApiDocument } from "./openapi";
+import { AuditEventType } from "./types/auditStore";
+import { EndpointSchema, JsonSchema } from "./types/schema";
+import { UserAttributes } from "./types/userStore";
+import {
+  completeMfaChallenge,
+  confirmMfaEnrollment,
+  createMfaChallenge,
+  disableMfa,
+  findMfaChallenge,
+  isMfaEnabled,
+  startMfaEnrollment,
+} from "./mfa";
+
+// How many events GET /audit returns per page, unless the request asks for fewer
+const DEFAULT_AUDIT_PAGE_SIZE = 50;
+const MAX_AUDIT_PAGE_SIZE = 100;
+
+// Schemas shared by several endpoints
+export const userIdProperty: JsonSchema = { type: "string", description: "The user's ID" };
+export const emailProperty: JsonSchema = { type: "string", format: "email" };
+export const usernameProperty: JsonSchema = {
+  type: "string",
+  minLength: USERNAME_RULES.minLength,
+  maxLength: USERNAME_RULES.maxLength,
+  pattern: USERNAME_RULES.pattern.source,
+};
+export const messageResponse: JsonSchema = {
+  type: "object",
+  required: ["message"],
+  properties: { message: { type: "string" } },
+};
+export const userResponse: JsonSchema = {
+  type: "object",
+  required: ["id", "username", "email"],
+  properties: { id: userIdProperty, username: { type: "string" }, email: emailProperty },
+};
+export const tokenProperties: { [name: string]: JsonSchema } = {
+  accessToken: { type: "string", description: "Only present if tokens are enabled" },
+  refreshToken: { type: "string", description: "Only present if tokens are enabled" },
+  tokenType: { type: "string", enum: ["Bearer"] },
+  expiresIn: { type: "integer", description: "Seconds until the access token expires" },
+};
+export const signedInProperties: { [name: string]: JsonSchema } = {
+  ...userResponse.properties,
+  emailVerified: { type: "boolean" },
+  ...tokenProperties,
+};
+
+export const registerSchema: EndpointSchema = {
+  summary: "Registers a new user",
+  description: "A verification token is emailed to the user.",
+  body: {
+    type: "object",
+    required: ["username", "password", "email"],
+    properties: {
+      username: usernameProperty,
+      password: { type: "string", description: "Must meet the password policy" },
+      email: emailProperty,
+      info: { type: "object", description: "Other editable user fields to set" },
+    },
+  },
+  response: { description: "The new user", schema: userResponse },
+  errors: {
+    409: "Another user has the same email, or the username has been taken",
+  },
+};
 
 /**
  * Handler for the /register endpoint
@@ -22,35 +119,61 @@ import {
 export async function handleRegister(
   event: LambdaFunctionURLEvent
 ): Promise<APIGatewayProxyResult> {
-  try {
-    if (!event.body) {
-      throw new ErrorWithStatus("Body is not provided", 400);
-    }
+  const { username, password, email, info } = parseBody<{
+    username: string;
+    password: string;
+    email: string;
+    info?: UserAttributes;
+  }>(event);
 
-    const { username, password, email } = JSON.parse(event.body);
-
-    if (username === undefined || password === undefined || email === undefined) {
-      throw new ErrorWithStatus("username, password and email must be passed in body", 400);
-    }
+  // userID of the newly generated user
+  const id: string = await withoutEnumeration(
+    () =>
+      audited(
+        event,
+        "register",
+        { email },
+        () => registerUser(tableName, username, password, email, info),
+        (id) => ({ userId: id })
+      ),
+    CONCEALED_REGISTRATION_ERRORS
+  );
 
-    // userID of the newly generated user
-    const id: string = await registerUser(tableName, username, password, email);
-
-    return {
-      headers,
-      statusCode: 200,
-      body: JSON.stringify({ id, username, email }),
-    };
-  } catch (error: any) {
-    logger.error("Error with User Registration", error);
-    return {
-      headers,
-      statusCode: error.statusCode || 500,
-      body: JSON.stringify({ message: error.message }),
-    };
-  }
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify({ id, username, email }),
+  };
 }
 
+export const authenticateSchema: EndpointSchema = {
+  summary: "Authenticates user credentials",
+  description:
+    "If the user has MFA enabled, returns a challenge to complete at /authenticate/mfa instead.",
+  body: {
+    type: "object",
+    required: ["email", "password"],
+    properties: { email: emailProperty, password: { type: "string" } },
+  },
+  response: {
+    description: "The user, and tokens if they are enabled. Or, an MFA challenge.",
+    schema: {
+      type: "object",
+      properties: {
+        ...signedInProperties,
+        mfaRequired: { type: "boolean", description: "Only present if an MFA challenge is needed" },
+        challenge: { type: "string", description: "The MFA challenge, if one is needed" },
+      },
+    },
+  },
+  errors: {
+    401: "Incorrect email or password",
+    403: "The user has no password, or must verify their email first",
+    423: "The account has been locked after too many failed attempts",
+    429: "Too many failed attempts. Try again after the Retry-After header",
+  },
+};
+
 /**
  * Handler for the /authenticate endpoint
  * @param event all of the info provided by Lambda about the event
@@ -59,138 +182,348 @@ export async function handleRegister(
 export async function handleAuthenticate(
   event: LambdaFunctionURLEvent
 ): Promise<APIGatewayProxyResult> {
-  try {
-    if (!event.body) {
-      throw new ErrorWithStatus("Body is not provided", 400);
-    }
-    const { email, password } = JSON.parse(event.body);
-
-    if (email === undefined || password === undefined) {
-      throw new ErrorWithStatus("email and password must be passed in body", 400);
-    }
-
-    const id: string = await authenticateUser(tableName, email, password);
+  const { email, password } = parseBody<{ email: string; password: string }>(event);
 
-    const { username } = await getUserInfo(tableName, id, "username");
+  const { id, challenge } = await withoutEnumeration(
+    () =>
+      audited(
+        event,
+        "login",
+        { email },
+        async () =>
+          startSignIn(
+            await authenticateUser(tableName, email, password, getSourceIp(event)),
+            "login"
+          ),
+        signInAudit
+      ),
+    CONCEALED_SIGN_IN_ERRORS
+  );
 
+  // Users with MFA enabled must complete a challenge at /authenticate/mfa to get their ID
+  if (challenge !== undefined) {
     return {
       headers,
       statusCode: 200,
-      body: JSON.stringify({ id, username, email }),
-    };
-  } catch (error: any) {
-    logger.error("Error with User Authentication", error);
-    return {
-      headers,
-      statusCode: error.statusCode || 500,
-      body: JSON.stringify({ message: error.message }),
+      body: JSON.stringify({ mfaRequired: true, ...challenge }),
     };
   }
+
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify(await signedInUser(id)),
+  };
 }
 
+export const oauthSchema: EndpointSchema = {
+  summary: "Handles OAuth authentication, including registration",
+  description:
+    "If the user has MFA enabled, returns a challenge to complete at /authenticate/mfa instead.",
+  body: {
+    type: "object",
+    required: ["provider", "idToken"],
+    properties: {
+      provider: { type: "string", description: "The OAuth provider, e.g. google" },
+      idToken: { type: "string", description: "The ID token the provider issued to the client" },
+      username: { type: "string", description: "The username to give new users" },
+    },
+  },
+  response: {
+    description: "The user, and tokens if they are enabled. Or, an MFA challenge.",
+    schema: {
+      type: "object",
+      properties: {
+        ...signedInProperties,
+        provider: { type: "string" },
+        mfaRequired: { type: "boolean", description: "Only present if an MFA challenge is needed" },
+        challenge: { type: "string", description: "The MFA challenge, if one is needed" },
+      },
+    },
+  },
+  errors: {
+    401: "Invalid or expired ID token",
+    403: "The provider has not been linked to the account, or a different account has been",
+  },
+};
+
 /**
  * Handler for the /handle-oauth endpoint
  * @param event all of the info provided by Lambda about the event
  * @returns the HTTP response
  */
 export async function handleOauth(event: LambdaFunctionURLEvent): Promise<APIGatewayProxyResult> {
-  try {
-    if (!event.body) {
-      throw new ErrorWithStatus("Body is not provided", 400);
-    }
-    const { username, email, provider } = JSON.parse(event.body);
+  const { username, provider, idToken } = parseBody<{
+    username?: string;
+    provider: string;
+    idToken: string;
+  }>(event);
 
-    if (username === undefined || provider === undefined || email === undefined) {
-      throw new ErrorWithStatus("username, email and provider must be passed in body", 400);
-    }
+  // Only trust the email and provider ID that the provider has signed for
+  const { email, subject, name } = await verifyIdToken(provider, idToken);
 
-    const id: string = await authenticateOauthUser(tableName, username, provider, email);
+  const { id, challenge } = await audited(
+    event,
+    "oauth_login",
+    { email, details: { provider } },
+    async () => {
+      const id = await authenticateOauthUser(
+        tableName,
+        username ?? name ?? email.split("@")[0],
+        provider,
+        email,
+        subject
+      );
+      return await startSignIn(id, "oauth_login");
+    },
+    signInAudit
+  );
 
+  // Users with MFA enabled must complete a challenge at /authenticate/mfa to get their ID
+  if (challenge !== undefined) {
     return {
       headers,
       statusCode: 200,
-      body: JSON.stringify({ id, username, email, provider }),
-    };
-  } catch (error: any) {
-    logger.error("Error with User OAuth authentication", error);
-    return {
-      headers,
-      statusCode: error.statusCode || 500,
-      body: JSON.stringify({ message: error.message }),
+      body: JSON.stringify({ mfaRequired: true, ...challenge }),
     };
   }
+
+  // The stored username may differ from the provided one if it was invalid or taken
+  const { username: storedUsername } = await getUserInfo(tableName, id, "username");
+
+  // Only present if token issuing has been configured
+  const tokens = await issueTokens(tableName, id);
+
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify({ id, username: storedUsername, email, provider, ...tokens }),
+  };
 }
 
+export const passwordlessStartSchema: EndpointSchema = {
+  summary: "Emails a one-time code or magic link to sign in with",
+  description:
+    "Only the latest code requested for an email can be used. Users without an account are " +
+    "registered when they sign in, if automatic registration has been enabled.",
+  body: {
+    type: "object",
+    required: ["email"],
+    properties: {
+      email: emailProperty,
+      method: {
+        type: "string",
+        enum: ["code", "link"],
+        description: "Whether to email a code to type in, or a magic link. Defaults to code.",
+      },
+    },
+  },
+  response: { description: "The code or link has been emailed", schema: messageResponse },
+  errors: {
+    400: "No user has the email, and automatic registration has not been enabled",
+    403: "The account has been disabled or deleted",
+    429: "Too many codes have been requested. Try again after the Retry-After header",
+  },
+};
+
 /**
- * Handler for the /set endpoint
+ * Handler for the /passwordless/start endpoint
  * @param event all of the info provided by Lambda about the event
  * @returns the HTTP response
  */
-export async function handleSetInfo(event: LambdaFunctionURLEvent): Promise<APIGatewayProxyResult> {
-  try {
-    if (!event.body) {
-      throw new ErrorWithStatus("Body is not provided", 400);
-    }
+export async function handlePasswordlessStart(
+  event: LambdaFunctionURLEvent
+): Promise<APIGatewayProxyResult> {
+  const { email, method = "code" } = parseBody<{ email: string; method?: PasswordlessMethod }>(
+    event
+  );
 
-    const { userID, info } = JSON.parse(event.body);
+  await withoutEnumeration(
+    () =>
+      audited(event, "passwordless_request", { email }, () =>
+        startPasswordlessSignIn(tableName, email, method)
+      ),
+    CONCEALED_PASSWORDLESS_REQUEST_ERRORS
+  );
 
-    if (userID === undefined || info === undefined) {
-      throw new ErrorWithStatus("userID and info must be passed in body", 400);
-    }
+  // The response cannot say whether the email was sent if it must not reveal the account
+  let message = `User with email ${email} has successfully been emailed a sign in ${method}.`;
+  if (ENUMERATION_PROTECTION.enabled) {
+    message = `If a user has the email ${email}, they have been emailed a sign in ${method}.`;
+  }
+
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify({ message }),
+  };
+}
 
-    await setUserInfo(tableName, userID, info);
+export const passwordlessVerifySchema: EndpointSchema = {
+  summary: "Signs a user in with an emailed code",
+  description:
+    "If the user has MFA enabled, returns a challenge to complete at /authenticate/mfa instead.",
+  body: {
+    type: "object",
+    required: ["email", "code"],
+    properties: {
+      email: emailProperty,
+      code: { type: "string", description: "The code from the email, or from the magic link" },
+      username: { type: "string", description: "The username to give new users" },
+    },
+  },
+  response: authenticateSchema.response,
+  errors: {
+    401: "Incorrect, expired or used code",
+    403: "The account has been disabled or deleted",
+  },
+};
 
+/**
+ * Handler for the /passwordless/verify endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @returns the HTTP response
+ */
+export async function handlePasswordlessVerify(
+  event: LambdaFunctionURLEvent
+): Promise<APIGatewayProxyResult> {
+  const { email, code, username } = parseBody<{ email: string; code: string; username?: string }>(
+    event
+  );
+
+  const { id, challenge } = await audited(
+    event,
+    "passwordless_login",
+    { email },
+    async () =>
+      startSignIn(
+        await completePasswordlessSignIn(tableName, email, code, username),
+        "passwordless_login"
+      ),
+    signInAudit
+  );
+
+  // Users with MFA enabled must complete a challenge at /authenticate/mfa to get their ID
+  if (challenge !== undefined) {
     return {
       headers,
       statusCode: 200,
-      body: JSON.stringify({
-        message: `Provided information has been successfully set for user ${userID}`,
-      }),
-    };
-  } catch (error: any) {
-    logger.error("Error with User Set Info", error);
-    return {
-      headers,
-      statusCode: error.statusCode || 500,
-      body: JSON.stringify({ message: error.message }),
+      body: JSON.stringify({ mfaRequired: true, ...challenge }),
     };
   }
+
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify(await signedInUser(id)),
+  };
 }
 
+export const setInfoSchema: EndpointSchema = {
+  summary: "Updates user information",
+  body: {
+    type: "object",
+    required: ["userID", "info"],
+    properties: {
+      userID: userIdProperty,
+      info: { type: "object", description: "The editable user fields to set, and their values" },
+    },
+  },
+  response: { description: "The fields have been set", schema: messageResponse },
+  errors: { 409: "The username has been taken" },
+};
+
 /**
- * Handler for the /get endpoint
+ * Handler for the /set endpoint
  * @param event all of the info provided by Lambda about the event
+ * @param auth who made the request
  * @returns the HTTP response
  */
-export async function handleGetInfo(event: LambdaFunctionURLEvent): Promise<APIGatewayProxyResult> {
-  try {
-    if (!event.body) {
-      throw new ErrorWithStatus("Body is not provided", 400);
-    }
+export async function handleSetInfo(
+  event: LambdaFunctionURLEvent,
+  auth: AuthContext
+): Promise<APIGatewayProxyResult> {
+  const { userID, info } = parseBody<{ userID: string; info: UserAttributes }>(event);
 
-    const { userID, fields } = JSON.parse(event.body);
+  assertSubject(auth, userID);
 
-    if (userID === undefined || fields === undefined) {
-      throw new ErrorWithStatus("userID and field must be passed in body", 400);
-    }
+  const details = { fields: Object.keys(info) };
+  await audited(event, "fields_edit", { userId: userID, details }, () =>
+    setUserInfo(tableName, userID, info)
+  );
 
-    const value: { [field: string]: string } = await getUserInfo(tableName, userID, fields);
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify({
+      message: `Provided information has been successfully set for user ${userID}`,
+    }),
+  };
+}
 
-    return {
-      headers,
-      statusCode: 200,
-      body: JSON.stringify({ fields: value }),
-    };
-  } catch (error: any) {
-    logger.error("Error with User Get Info", error.message);
-    return {
-      headers,
-      statusCode: error.statusCode || 500,
-      body: JSON.stringify({ message: error.message }),
-    };
-  }
+export const getInfoSchema: EndpointSchema = {
+  summary: "Retrieves user information",
+  description:
+    "Clients that send userID and fields in the body, rather than the query string, are still " +
+    "supported.",
+  query: {
+    type: "object",
+    required: ["userID", "fields"],
+    properties: {
+      userID: userIdProperty,
+      fields: {
+        type: "string",
+        description: "The retrievable user fields to return, as a comma-separated list",
+      },
+    },
+  },
+  response: {
+    description: "The requested fields",
+    schema: { type: "object", required: ["fields"], properties: { fields: { type: "object" } } },
+  },
+};
+
+/**
+ * Handler for the /get endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @param auth who made the request
+ * @returns the HTTP response
+ */
+export async function handleGetInfo(
+  event: LambdaFunctionURLEvent,
+  auth: AuthContext
+): Promise<APIGatewayProxyResult> {
+  const { userID, fields } = getQuery<{ userID: string; fields: string }>(event);
+
+  assertSubject(auth, userID);
+
+  const value = await getUserInfo(tableName, userID, fields);
+
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify({ fields: value }),
+  };
 }
 
+export const changePasswordSchema: EndpointSchema = {
+  summary: "Changes user password",
+  body: {
+    type: "object",
+    required: ["email", "oldPassword", "newPassword"],
+    properties: {
+      email: emailProperty,
+      oldPassword: { type: "string" },
+      newPassword: { type: "string", description: "Must meet the password policy" },
+    },
+  },
+  response: { description: "The password has been changed", schema: messageResponse },
+  errors: {
+    401: "Incorrect email or password",
+    403: "The user signed up with an OAuth provider",
+  },
+};
+
 /**
  * Handler for the /change-pw endpoint
  * @param event all of the info provided by Lambda about the event
@@ -199,72 +532,200 @@ export async function handleGetInfo(event: LambdaFunctionURLEvent): Promise<APIG
 export async function handleChangePW(
   event: LambdaFunctionURLEvent
 ): Promise<APIGatewayProxyResult> {
-  try {
-    if (!event.body) {
-      throw new ErrorWithStatus("Body is not provided", 400);
-    }
+  const { email, oldPassword, newPassword } = parseBody<{
+    email: string;
+    oldPassword: string;
+    newPassword: string;
+  }>(event);
 
-    const { email, oldPassword, newPassword } = JSON.parse(event.body);
+  await audited(event, "password_change", { email }, () =>
+    changePassword(tableName, email, oldPassword, newPassword)
+  );
 
-    if (email === undefined || oldPassword === undefined || newPassword === undefined) {
-      throw new ErrorWithStatus("email, oldPassword and newPassword must be passed in body", 400);
-    }
-
-    await changePassword(tableName, email, oldPassword, newPassword);
-
-    return {
-      headers,
-      statusCode: 200,
-      body: JSON.stringify({
-        message: `User with email ${email} has successfully changed their password.`,
-      }),
-    };
-  } catch (error: any) {
-    logger.error("Error with User Password Change", error);
-    return {
-      headers,
-      statusCode: error.statusCode || 500,
-      body: JSON.stringify({ message: error.message }),
-    };
-  }
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify({
+      message: `User with email ${email} has successfully changed their password.`,
+    }),
+  };
 }
 
+export const deleteUserSchema: EndpointSchema = {
+  summary: "Deletes user",
+  description:
+    "The user is disabled straight away, and purged once the grace period has passed. Until " +
+    "then, an administrator can restore them.",
+  body: { type: "object", required: ["userID"], properties: { userID: userIdProperty } },
+  response: { description: "The user has been deleted", schema: messageResponse },
+};
+
 /**
  * Handler for the /delete endpoint
  * @param event all of the info provided by Lambda about the event
+ * @param auth who made the request
  * @returns the HTTP response
  */
 export async function handleDeleteUser(
-  event: LambdaFunctionURLEvent
+  event: LambdaFunctionURLEvent,
+  auth: AuthContext
 ): Promise<APIGatewayProxyResult> {
-  try {
-    if (!event.body) {
-      throw new ErrorWithStatus("Body is not provided", 400);
-    }
+  const { userID } = parseBody<{ userID: string }>(event);
 
-    const { userID } = JSON.parse(event.body);
+  assertSubject(auth, userID);
 
-    if (userID === undefined) {
-      throw new ErrorWithStatus("userID must be passed in body", 400);
-    }
+  await audited(event, "delete", { userId: userID }, () => deleteUser(tableName, userID));
 
-    await deleteUser(tableName, userID);
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify({ message: `userID ${userID} successfully deleted.` }),
+  };
+}
 
-    return {
-      headers,
-      statusCode: 200,
-      body: JSON.stringify({ message: `userID ${userID} successfully deleted.` }),
-    };
-  } catch (error: any) {
-    logger.error("Error with Delete User", error);
-    return {
-      headers,
-      statusCode: error.statusCode || 500,
-      body: JSON.stringify({ message: error.message }),
-    };
-  }
+export const exportSchema: EndpointSchema = {
+  summary: "Downloads everything stored about a user",
+  description:
+    "Secrets, such as the user's password hash, reset token and MFA secret, are left out.",
+  query: { type: "object", required: ["userID"], properties: { userID: userIdProperty } },
+  response: {
+    description: "A JSON document to save, holding the user's attributes",
+    schema: {
+      type: "object",
+      required: ["exportedAt", "user"],
+      properties: { exportedAt: { type: "string", format: "date-time" }, user: { type: "object" } },
+    },
+  },
+};
+
+/**
+ * Handler for the /export endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @param auth who made the request
+ * @returns the HTTP response
+ */
+export async function handleExport(
+  event: LambdaFunctionURLEvent,
+  auth: AuthContext
+): Promise<APIGatewayProxyResult> {
+  const { userID } = getQuery<{ userID: string }>(event);
+
+  assertSubject(auth, userID);
+
+  const data = await exportUserData(tableName, userID);
+
+  return {
+    headers: {
+      ...headers,
+      "Content-Disposition": `attachment; filename="user-data-${userID}.json"`,
+    },
+    statusCode: 200,
+    body: JSON.stringify(data, null, 2),
+  };
 }
 
+export const auditSchema: EndpointSchema = {
+  summary: "Retrieves a user's audit history",
+  description:
+    "Security-relevant events on the user's account, such as sign ins and password changes, " +
+    "newest first. Keep passing the returned cursor until none is returned.",
+  query: {
+    type: "object",
+    required: ["userID"],
+    properties: {
+      userID: userIdProperty,
+      from: {
+        type: "string",
+        format: "date-time",
+        description: "Only events at or after this time. Defaults to the oldest event kept.",
+      },
+      to: {
+        type: "string",
+        format: "date-time",
+        description: "Only events at or before this time. Defaults to now.",
+      },
+      limit: {
+        type: "string",
+        pattern: "^[1-9][0-9]*$",
+        description:
+          `How many events to return, up to ${MAX_AUDIT_PAGE_SIZE}. ` +
+          `Defaults to ${DEFAULT_AUDIT_PAGE_SIZE}.`,
+      },
+      cursor: { type: "string", description: "The cursor returned with the previous page" },
+    },
+  },
+  response: {
+    description: "A page of events",
+    schema: {
+      type: "object",
+      required: ["events"],
+      properties: {
+        events: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["userId", "type", "outcome", "timestamp"],
+            properties: {
+              userId: userIdProperty,
+              type: { type: "string", description: "e.g. login or password_change" },
+              outcome: { type: "string", enum: ["success", "failure"] },
+              timestamp: { type: "string", format: "date-time" },
+              sourceIp: { type: "string" },
+              userAgent: { type: "string" },
+              errorCode: { type: "string", description: "Why the operation failed" },
+              requestId: { type: "string" },
+              details: { type: "object" },
+            },
+          },
+        },
+        cursor: { type: "string", description: "Pass this to get the next page" },
+      },
+    },
+  },
+  errors: { 400: "Invalid time range or cursor" },
+};
+
+/**
+ * Handler for the /audit endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @param auth who made the request
+ * @returns the HTTP response
+ */
+export async function handleAudit(
+  event: LambdaFunctionURLEvent,
+  auth: AuthContext
+): Promise<APIGatewayProxyResult> {
+  const { userID, from, to, limit, cursor } = getQuery<{
+    userID: string;
+    from?: string;
+    to?: string;
+    limit?: string;
+    cursor?: string;
+  }>(event);
+
+  assertSubject(auth, userID);
+
+  const page = await getAuditHistory(userID, {
+    from: parseTime("from", from, new Date(0)),
+    to: parseTime("to", to, new Date()),
+    limit: Math.min(Number(limit ?? DEFAULT_AUDIT_PAGE_SIZE), MAX_AUDIT_PAGE_SIZE),
+    cursor,
+  });
+
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify(page),
+  };
+}
+
+export const sendPasswordResetTokenSchema: EndpointSchema = {
+  summary: "Sends a password reset token to the user's email",
+  body: { type: "object", required: ["email"], properties: { email: emailProperty } },
+  response: { description: "The token has been emailed", schema: messageResponse },
+  errors: { 403: "The user signed up with an OAuth provider" },
+};
+
 /**
  * Handler for the /pw-reset-token endpoint
  * @param event all of the info provided by Lambda about the event
@@ -273,65 +734,568 @@ export async function handleDeleteUser(
 export async function handleSendPasswordResetToken(
   event: LambdaFunctionURLEvent
 ): Promise<APIGatewayProxyResult> {
-  try {
-    if (!event.body) {
-      throw new ErrorWithStatus("Body is not provided", 400);
-    }
+  const { email } = parseBody<{ email: string }>(event);
 
-    const { email } = JSON.parse(event.body);
+  await withoutEnumeration(
+    () =>
+      audited(event, "password_reset_request", { email }, () =>
+        sendPasswordResetToken(tableName, email)
+      ),
+    CONCEALED_RESET_REQUEST_ERRORS
+  );
 
-    if (email === undefined) {
-      throw new ErrorWithStatus("email must be passed in body", 400);
-    }
-
-    await sendPasswordResetToken(tableName, email);
-
-    return {
-      headers,
-      statusCode: 200,
-      body: JSON.stringify({
-        message: `User with email ${email} has successfully been emailed a password reset token.`,
-      }),
-    };
-  } catch (error: any) {
-    logger.error("Error with Sending Password Reset Token", error);
-    return {
-      headers,
-      statusCode: error.statusCode || 500,
-      body: JSON.stringify({ message: error.message }),
-    };
+  // The response cannot say whether the email was sent if it must not reveal the account
+  let message = `User with email ${email} has successfully been emailed a password reset token.`;
+  if (ENUMERATION_PROTECTION.enabled) {
+    message = `If a user has the email ${email}, they have been emailed a password reset token.`;
   }
+
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify({ message }),
+  };
 }
 
+export const resetPasswordSchema: EndpointSchema = {
+  summary: "Resets user password using the token sent to their email",
+  body: {
+    type: "object",
+    required: ["email", "token", "newPassword"],
+    properties: {
+      email: emailProperty,
+      token: {
+        type: "string",
+        description: "The token emailed by /pw-reset-token, or the token from the reset link",
+      },
+      newPassword: { type: "string", description: "Must meet the password policy" },
+    },
+  },
+  response: { description: "The password has been reset", schema: messageResponse },
+  errors: { 403: "The user signed up with an OAuth provider" },
+};
+
+/**
+ * Handler for the /pw-reset endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @returns the HTTP response
+ */
 export async function handleResetPassword(
   event: LambdaFunctionURLEvent
 ): Promise<APIGatewayProxyResult> {
-  try {
-    if (!event.body) {
-      throw new ErrorWithStatus("Body is not provided", 400);
-    }
+  const { email, token, newPassword } = parseBody<{
+    email: string;
+    token: string;
+    newPassword: string;
+  }>(event);
+
+  await withoutEnumeration(
+    () =>
+      audited(event, "password_reset", { email }, () =>
+        resetPassword(tableName, email, token, newPassword)
+      ),
+    CONCEALED_RESET_ERRORS
+  );
+
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify({
+      message: `User with email ${email} has successfully reset their password`,
+    }),
+  };
+}
+
+export const refreshTokenSchema: EndpointSchema = {
+  summary: "Swaps a refresh token for new tokens",
+  body: {
+    type: "object",
+    required: ["refreshToken"],
+    properties: { refreshToken: { type: "string" } },
+  },
+  response: {
+    description: "The new tokens",
+    schema: { type: "object", required: Object.keys(tokenProperties), properties: tokenProperties },
+  },
+  errors: {
+    401: "Invalid, expired, revoked or reused refresh token",
+    404: "Tokens are not enabled",
+  },
+};
+
+/**
+ * Handler for the /token/refresh endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @returns the HTTP response
+ */
+export async function handleRefreshToken(
+  event: LambdaFunctionURLEvent
+): Promise<APIGatewayProxyResult> {
+  const { refreshToken } = parseBody<{ refreshToken: string }>(event);
+
+  const tokens = await refreshTokens(tableName, refreshToken);
+
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify(tokens),
+  };
+}
+
+export const revokeTokenSchema: EndpointSchema = {
+  summary: "Revokes a refresh token and its rotations",
+  body: {
+    type: "object",
+    required: ["refreshToken"],
+    properties: { refreshToken: { type: "string" } },
+  },
+  response: {
+    description: "The token has been revoked, or was unknown",
+    schema: messageResponse,
+  },
+};
+
+/**
+ * Handler for the /token/revoke endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @returns the HTTP response
+ */
+export async function handleRevokeToken(
+  event: LambdaFunctionURLEvent
+): Promise<APIGatewayProxyResult> {
+  const { refreshToken } = parseBody<{ refreshToken: string }>(event);
+
+  await revokeRefreshToken(refreshToken);
+
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify({ message: "Refresh token has been revoked" }),
+  };
+}
+
+export const authenticateMfaSchema: EndpointSchema = {
+  summary: "Finishes signing in a user with MFA enabled",
+  body: {
+    type: "object",
+    required: ["challenge", "code"],
+    properties: {
+      challenge: { type: "string", description: "The challenge returned by /authenticate" },
+      code: {
+        type: "string",
+        description: "A code from the authenticator app, or a recovery code",
+      },
+    },
+  },
+  response: {
+    description: "The user, and tokens if they are enabled",
+    schema: { type: "object", properties: signedInProperties },
+  },
+  errors: { 401: "Invalid, expired or exhausted challenge, or incorrect code" },
+};
+
+/**
+ * Handler for the /authenticate/mfa endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @returns the HTTP response
+ */
+export async function handleAuthenticateMfa(
+  event: LambdaFunctionURLEvent
+): Promise<APIGatewayProxyResult> {
+  const { challenge, code } = parseBody<{ challenge: string; code: string }>(event);
+
+  // The sign in the challenge completes is recorded against its user. Challenges that do not
+  // exist or have expired have no user to record it against.
+  const pending = await findMfaChallenge(challenge);
+  const id = await audited(
+    event,
+    pending?.signIn ?? "login",
+    { userId: pending?.userId, details: { mfa: true } },
+    () => completeMfaChallenge(tableName, challenge, code)
+  );
+
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify(await signedInUser(id)),
+  };
+}
+
+export const mfaEnrollSchema: EndpointSchema = {
+  summary: "Starts TOTP MFA enrollment",
+  body: { type: "object", required: ["userID"], properties: { userID: userIdProperty } },
+  response: {
+    description: "The secret to add to an authenticator app",
+    schema: {
+      type: "object",
+      required: ["secret", "otpauthUri"],
+      properties: {
+        secret: { type: "string", description: "The base32 TOTP secret" },
+        otpauthUri: { type: "string", format: "uri", description: "For QR codes" },
+      },
+    },
+  },
+  errors: { 409: "MFA is already enabled" },
+};
+
+/**
+ * Handler for the /mfa/enroll endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @param auth who made the request
+ * @returns the HTTP response
+ */
+export async function handleMfaEnroll(
+  event: LambdaFunctionURLEvent,
+  auth: AuthContext
+): Promise<APIGatewayProxyResult> {
+  const { userID } = parseBody<{ userID: string }>(event);
+
+  assertSubject(auth, userID);
+
+  const enrollment = await startMfaEnrollment(tableName, userID);
+
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify(enrollment),
+  };
+}
+
+export const mfaConfirmSchema: EndpointSchema = {
+  summary: "Enables MFA with a first code from the authenticator app",
+  body: {
+    type: "object",
+    required: ["userID", "code"],
+    properties: { userID: userIdProperty, code: { type: "string" } },
+  },
+  response: {
+    description: "Single-use recovery codes, which are only shown once",
+    schema: {
+      type: "object",
+      required: ["recoveryCodes"],
+      properties: { recoveryCodes: { type: "array", items: { type: "string" } } },
+    },
+  },
+  errors: { 409: "MFA is already enabled" },
+};
+
+/**
+ * Handler for the /mfa/confirm endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @param auth who made the request
+ * @returns the HTTP response
+ */
+export async function handleMfaConfirm(
+  event: LambdaFunctionURLEvent,
+  auth: AuthContext
+): Promise<APIGatewayProxyResult> {
+  const { userID, code } = parseBody<{ userID: string; code: string }>(event);
+
+  assertSubject(auth, userID);
+
+  const recoveryCodes = await confirmMfaEnrollment(tableName, userID, code);
+
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify({ recoveryCodes }),
+  };
+}
+
+export const mfaDisableSchema: EndpointSchema = {
+  summary: "Disables MFA",
+  body: {
+    type: "object",
+    required: ["userID", "code"],
+    properties: {
+      userID: userIdProperty,
+      code: { type: "string", description: "A code from the app, or a recovery code" },
+    },
+  },
+  response: { description: "MFA has been disabled", schema: messageResponse },
+};
+
+/**
+ * Handler for the /mfa/disable endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @param auth who made the request
+ * @returns the HTTP response
+ */
+export async function handleMfaDisable(
+  event: LambdaFunctionURLEvent,
+  auth: AuthContext
+): Promise<APIGatewayProxyResult> {
+  const { userID, code } = parseBody<{ userID: string; code: string }>(event);
+
+  assertSubject(auth, userID);
+
+  await disableMfa(tableName, userID, code);
+
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify({ message: `MFA has been disabled for user ${userID}` }),
+  };
+}
+
+export const verifyEmailSchema: EndpointSchema = {
+  summary: "Verifies a user's email with the emailed token",
+  body: {
+    type: "object",
+    required: ["email", "token"],
+    properties: { email: emailProperty, token: { type: "string" } },
+  },
+  response: { description: "The email has been verified", schema: messageResponse },
+};
+
+/**
+ * Handler for the /verify-email endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @returns the HTTP response
+ */
+export async function handleVerifyEmail(
+  event: LambdaFunctionURLEvent
+): Promise<APIGatewayProxyResult> {
+  const { email, token } = parseBody<{ email: string; token: string }>(event);
 
-    const { email, token, newPassword } = JSON.parse(event.body);
+  await withoutEnumeration(
+    () => verifyEmail(tableName, email, token),
+    CONCEALED_VERIFICATION_ERRORS
+  );
 
-    if (email === undefined || token === undefined || newPassword === undefined) {
-      throw new ErrorWithStatus("email, token, and newPassword must be passed in body", 400);
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify({ message: `Email ${email} has successfully been verified.` }),
+  };
+}
+
+export const resendVerificationSchema: EndpointSchema = {
+  summary: "Emails a new verification token",
+  body: { type: "object", required: ["email"], properties: { email: emailProperty } },
+  response: { description: "The token has been emailed", schema: messageResponse },
+  errors: { 429: "Too many tokens requested. Try again after the Retry-After header" },
+};
+
+/**
+ * Handler for the /resend-verification endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @returns the HTTP response
+ */
+export async function handleResendVerification(
+  event: LambdaFunctionURLEvent
+): Promise<APIGatewayProxyResult> {
+  const { email } = parseBody<{ email: string }>(event);
+
+  await withoutEnumeration(
+    () => resendEmailVerificationToken(tableName, email),
+    CONCEALED_VERIFICATION_REQUEST_ERRORS
+  );
+
+  // The response cannot say whether the email was sent if it must not reveal the account
+  let message = `User with email ${email} has successfully been emailed a verification token.`;
+  if (ENUMERATION_PROTECTION.enabled) {
+    message = `If a user has the email ${email}, they have been emailed a verification token.`;
+  }
+
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify({ message }),
+  };
+}
+
+export const linkProviderSchema: EndpointSchema = {
+  summary: "Links another sign-in method to an account",
+  description: `Use provider "${PASSWORD_PROVIDER}" with a password to add a password instead.`,
+  body: {
+    type: "object",
+    required: ["userID", "provider"],
+    properties: {
+      userID: userIdProperty,
+      provider: { type: "string", description: `The OAuth provider, or "${PASSWORD_PROVIDER}"` },
+      idToken: { type: "string", description: "An ID token from the provider" },
+      password: { type: "string", description: "The password to add" },
+    },
+  },
+  response: { description: "The sign-in method has been linked", schema: messageResponse },
+  errors: { 409: "Already linked" },
+};
+
+/**
+ * Handler for the /link-provider endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @param auth who made the request
+ * @returns the HTTP response
+ */
+export async function handleLinkProvider(
+  event: LambdaFunctionURLEvent,
+  auth: AuthContext
+): Promise<APIGatewayProxyResult> {
+  const { userID, provider, idToken, password } = parseBody<{
+    userID: string;
+    provider: string;
+    idToken?: string;
+    password?: string;
+  }>(event);
+
+  assertSubject(auth, userID);
+
+  if (provider === PASSWORD_PROVIDER) {
+    await linkProvider(tableName, userID, provider, { password });
+  } else {
+    if (typeof idToken !== "string") {
+      throw new ErrorWithStatus("idToken must be passed in body to link a provider", 400);
     }
+    const { email, subject } = await verifyIdToken(provider, idToken);
+    await linkProvider(tableName, userID, provider, { email, providerId: subject });
+  }
 
-    await resetPassword(tableName, email, token, newPassword);
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify({ message: `${provider} has been linked to user ${userID}` }),
+  };
+}
 
-    return {
-      headers,
-      statusCode: 200,
-      body: JSON.stringify({
-        message: `User with email ${email} has successfully reset their password`,
-      }),
-    };
-  } catch (error: any) {
-    logger.error("Error with Resetting User Password", error);
-    return {
-      headers,
-      statusCode: error.statusCode || 500,
-      body: JSON.stringify({ message: error.message }),
-    };
+export const unlinkProviderSchema: EndpointSchema = {
+  summary: "Unlinks a sign-in method from an account",
+  body: {
+    type: "object",
+    required: ["userID", "provider"],
+    properties: {
+      userID: userIdProperty,
+      provider: { type: "string", description: `The OAuth provider, or "${PASSWORD_PROVIDER}"` },
+    },
+  },
+  response: { description: "The sign-in method has been unlinked", schema: messageResponse },
+};
+
+/**
+ * Handler for the /unlink-provider endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @param auth who made the request
+ * @returns the HTTP response
+ */
+export async function handleUnlinkProvider(
+  event: LambdaFunctionURLEvent,
+  auth: AuthContext
+): Promise<APIGatewayProxyResult> {
+  const { userID, provider } = parseBody<{ userID: string; provider: string }>(event);
+
+  assertSubject(auth, userID);
+
+  await unlinkProvider(tableName, userID, provider);
+
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify({ message: `${provider} has been unlinked from user ${userID}` }),
+  };
+}
+
+export const openApiSchema: EndpointSchema = {
+  summary: "Describes the API",
+  response: { description: "This OpenAPI 3.1 document", schema: { type: "object" } },
+};
+
+// Generated on the first request, as the routes never change
+let openApiDocument: object | undefined;
+
+/**
+ * Handler for the /openapi.json endpoint
+ * @returns the HTTP response
+ */
+export async function handleOpenApi(): Promise<APIGatewayProxyResult> {
+  openApiDocument ??= buildOpenApiDocument(routes);
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify(openApiDocument),
+  };
+}
+
+/**
+ * This function gets the response body for a user who has just signed in
+ * @param id the ID of the user
+ * @returns the user's ID, username, email and whether it has been verified, plus tokens if token
+ * issuing has been configured
+ */
+export async function signedInUser(id: string) {
+  const { username, email, email_verified } = await getUserInfo(
+    tableName,
+    id,
+    "username, email, email_verified"
+  );
+
+  // Only present if token issuing has been configured
+  const tokens = await issueTokens(tableName, id);
+
+  return { id, username, email, emailVerified: email_verified !== false, ...tokens };
+}
+
+// A user who has passed the first step of signing in, and the MFA challenge they must complete
+// before they are signed in, if they have MFA enabled
+export interface SignInStep {
+  id: string;
+  challenge?: { challenge: string; expiresIn: number };
+}
+
+/**
+ * This function issues an MFA challenge to a user who has passed the first step of signing in,
+ * if they have MFA enabled
+ * @param id the ID of the user
+ * @param signIn the type of sign in, which is audited once the challenge has been completed
+ * @returns the user's ID, and the challenge if one was issued
+ */
+export async function startSignIn(id: string, signIn: AuditEventType): Promise<SignInStep> {
+  if (!(await isMfaEnabled(tableName, id))) {
+    return { id };
+  }
+  return { id, challenge: await createMfaChallenge(id, signIn) };
+}
+
+/**
+ * This function gets what to audit about the first step of signing in. Issuing a challenge is
+ * recorded as such, and the sign in itself only once the challenge has been completed.
+ * @param step the result of startSignIn
+ * @returns the user_id, and the mfa_challenge type if a challenge was issued
+ */
+export function signInAudit(step: SignInStep): AuditSuccess {
+  return { userId: step.id, type: step.challenge === undefined ? undefined : "mfa_challenge" };
+}
+
+/**
+ * This function gets the IP address that a request came from
+ * @param event all of the info provided by Lambda about the event
+ * @returns the source IP, or undefined if Lambda did not provide one
+ */
+export function getSourceIp(event: LambdaFunctionURLEvent): string | undefined {
+  // Lambda function URLs provide http.sourceIp, API Gateway REST APIs provide identity.sourceIp
+  const requestContext:
+    { http?: { sourceIp?: string }; identity?: { sourceIp?: string } } | undefined =
+    event.requestContext;
+  return requestContext?.http?.sourceIp ?? requestContext?.identity?.sourceIp;
+}
+
+/**
+ * This function parses a time from the query string
+ * @param name the name of the query string parameter
+ * @param value the value of the parameter
+ * @param fallback the time to use if the parameter was not sent
+ * @returns the time, throws a 400 error if the value is not a valid time
+ */
+function parseTime(name: string, value: string | undefined, fallback: Date): Date {
+  if (value === undefined) {
+    return fallback;
+  }
+  const time = new Date(value);
+  if (Number.isNaN(time.getTime())) {
+    throw new ErrorWithStatus(
+      `Invalid request: query.${name} must be an ISO 8601 date-time`,
+      400,
+      "INVALID_REQUEST"
+    );
   }
+  return time;
 }
@@ -0,0 +1,224 @@
+import { LambdaFunctionURLEvent, APIGatewayProxyResult } from "aws-lambda";
+import { headers } from ".";
+import { PASSWORD_PROVIDER, TABLE_NAME as tableName } from "./constants";
+import {
+  forcePasswordReset,
+  getUserForAdmin,
+  listUsers,
+  restoreUser,
+  setUserDisabled,
+} from "./admin";
+import { AuthContext } from "./authorization";
+import { EndpointSchema, JsonSchema } from "./types/schema";
+import { userIdProperty } from "./endpoints";
+
+// The admin API lets administrators find and manage any user. Every route requires an admin API
+// key, or a bearer token with the admin role.
+
+// How many users GET /admin/users looks at per page, unless the request asks for fewer
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+const adminUserResponse: JsonSchema = {
+  type: "object",
+  required: ["id", "hasPassword", "mfaEnabled", "disabled", "passwordResetRequired"],
+  description: "The user's retrievable fields, and flags describing the account",
+  properties: {
+    id: userIdProperty,
+    hasPassword: { type: "boolean" },
+    mfaEnabled: { type: "boolean" },
+    disabled: { type: "boolean" },
+    passwordResetRequired: { type: "boolean" },
+    purgeAt: {
+      type: "string",
+      format: "date-time",
+      description: "When the user will be purged, if they have been deleted",
+    },
+  },
+};
+
+export const adminListUsersSchema: EndpointSchema = {
+  summary: "Lists users a page at a time",
+  description:
+    "Users that do not match the filters still count towards the limit, so a page may hold " +
+    "fewer users even if more follow. Keep passing the returned cursor until none is returned.",
+  query: {
+    type: "object",
+    properties: {
+      limit: {
+        type: "string",
+        pattern: "^[1-9][0-9]*$",
+        description:
+          `How many users to look at, up to ${MAX_PAGE_SIZE}. ` +
+          `Defaults to ${DEFAULT_PAGE_SIZE}.`,
+      },
+      cursor: { type: "string", description: "The cursor returned with the previous page" },
+      email: { type: "string", description: "Only users whose email starts with this" },
+      username: { type: "string", description: "Only users whose username starts with this" },
+      provider: {
+        type: "string",
+        description: `Only users who can sign in with this provider, or "${PASSWORD_PROVIDER}"`,
+      },
+    },
+  },
+  response: {
+    description: "A page of users",
+    schema: {
+      type: "object",
+      required: ["users"],
+      properties: {
+        users: { type: "array", items: adminUserResponse },
+        cursor: { type: "string", description: "Pass this to get the next page" },
+      },
+    },
+  },
+};
+
+/**
+ * Handler for the GET /admin/users endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @param auth who made the request
+ * @returns the HTTP response
+ */
+export async function handleAdminListUsers(
+  event: LambdaFunctionURLEvent,
+  auth: AuthContext
+): Promise<APIGatewayProxyResult> {
+  const { limit, cursor, email, username, provider } = event.queryStringParameters ?? {};
+
+  const page = await listUsers(tableName, auth, {
+    limit: Math.min(Number(limit ?? DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE),
+    cursor,
+    emailPrefix: email,
+    usernamePrefix: username,
+    provider,
+  });
+
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify(page),
+  };
+}
+
+export const adminGetUserSchema: EndpointSchema = {
+  summary: "Retrieves a user's non-secret fields",
+  response: { description: "The user", schema: adminUserResponse },
+  errors: { 404: "The user does not exist" },
+};
+
+/**
+ * Handler for the GET /admin/users/{id} endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @param auth who made the request
+ * @returns the HTTP response
+ */
+export async function handleAdminGetUser(
+  event: LambdaFunctionURLEvent,
+  auth: AuthContext
+): Promise<APIGatewayProxyResult> {
+  const user = await getUserForAdmin(tableName, auth, event.pathParameters!.id!);
+
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify(user),
+  };
+}
+
+export const adminForcePasswordResetSchema: EndpointSchema = {
+  summary: "Makes a user reset their password",
+  description:
+    "The user cannot sign in with their password until they reset it, and a reset token is " +
+    "emailed to them.",
+  response: { status: 202, description: "The reset token has been emailed" },
+  errors: {
+    403: "The user signed up with an OAuth provider, or the caller is not an administrator",
+    404: "The user does not exist",
+  },
+};
+
+/**
+ * Handler for the POST /admin/users/{id}/password-reset endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @param auth who made the request
+ * @returns the HTTP response
+ */
+export async function handleAdminForcePasswordReset(
+  event: LambdaFunctionURLEvent,
+  auth: AuthContext
+): Promise<APIGatewayProxyResult> {
+  await forcePasswordReset(tableName, auth, event.pathParameters!.id!);
+
+  return { headers, statusCode: 202, body: "" };
+}
+
+export const adminDisableUserSchema: EndpointSchema = {
+  summary: "Disables a user",
+  description:
+    "Disabled users cannot sign in or refresh their tokens. Access tokens they already have " +
+    "stay valid until they expire.",
+  response: { status: 204, description: "The user has been disabled" },
+  errors: { 404: "The user does not exist", 409: "The user has been deleted" },
+};
+
+/**
+ * Handler for the POST /admin/users/{id}/disable endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @param auth who made the request
+ * @returns the HTTP response
+ */
+export async function handleAdminDisableUser(
+  event: LambdaFunctionURLEvent,
+  auth: AuthContext
+): Promise<APIGatewayProxyResult> {
+  await setUserDisabled(tableName, auth, event.pathParameters!.id!, true);
+
+  return { headers, statusCode: 204, body: "" };
+}
+
+export const adminEnableUserSchema: EndpointSchema = {
+  summary: "Re-enables a disabled user",
+  response: { status: 204, description: "The user has been enabled" },
+  errors: { 404: "The user does not exist", 409: "The user has been deleted" },
+};
+
+/**
+ * Handler for the POST /admin/users/{id}/enable endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @param auth who made the request
+ * @returns the HTTP response
+ */
+export async function handleAdminEnableUser(
+  event: LambdaFunctionURLEvent,
+  auth: AuthContext
+): Promise<APIGatewayProxyResult> {
+  await setUserDisabled(tableName, auth, event.pathParameters!.id!, false);
+
+  return { headers, statusCode: 204, body: "" };
+}
+
+export const adminRestoreUserSchema: EndpointSchema = {
+  summary: "Restores a deleted user",
+  description: "Users can be restored until their grace period ends, and are re-enabled.",
+  response: { status: 204, description: "The user has been restored" },
+  errors: {
+    404: "The user does not exist, or the grace period has ended",
+    409: "The user has not been deleted",
+  },
+};
+
+/**
+ * Handler for the POST /admin/users/{id}/restore endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @param auth who made the request
+ * @returns the HTTP response
+ */
+export async function handleAdminRestoreUser(
+  event: LambdaFunctionURLEvent,
+  auth: AuthContext
+): Promise<APIGatewayProxyResult> {
+  await restoreUser(tableName, auth, event.pathParameters!.id!);
+
+  return { headers, statusCode: 204, body: "" };
+}
@@ -0,0 +1,333 @@
+import { LambdaFunctionURLEvent, APIGatewayProxyResult } from "aws-lambda";
+import { headers } from ".";
+import { TABLE_NAME as tableName } from "./constants";
+import {
+  authenticateUser,
+  deleteUser,
+  getUserInfo,
+  registerUser,
+  resetPassword,
+  sendPasswordResetToken,
+  setUserInfo,
+} from "./dynamo";
+import { assertSubject, AuthContext } from "./authorization";
+import { parseBody } from "./jsonSchema";
+import { audited } from "./audit";
+import {
+  CONCEALED_REGISTRATION_ERRORS,
+  CONCEALED_RESET_ERRORS,
+  CONCEALED_RESET_REQUEST_ERRORS,
+  CONCEALED_SIGN_IN_ERRORS,
+  withoutEnumeration,
+} from "./enumeration";
+import { retrievableUserFields } from "./userFields";
+import { EndpointSchema } from "./types/schema";
+import { UserAttributes } from "./types/userStore";
+import {
+  emailProperty,
+  signedInProperties,
+  signedInUser,
+  signInAudit,
+  startSignIn,
+  getSourceIp,
+  userResponse,
+  usernameProperty,
+} from "./endpoints";
+
+// The v2 API exposes users, sessions and password resets as resources. The IDs of the resources
+// being acted on travel in the path, and only the data to write travels in the body, so that no
+// request needs a body on GET or DELETE. It reuses the same logic as the legacy routes in
+// endpoints.ts, which keep working unchanged.
+
+export const createUserSchema: EndpointSchema = {
+  summary: "Registers a new user",
+  description: "A verification token is emailed to the user.",
+  body: {
+    type: "object",
+    required: ["username", "password", "email"],
+    properties: {
+      username: usernameProperty,
+      password: { type: "string", description: "Must meet the password policy" },
+      email: emailProperty,
+      info: { type: "object", description: "Other editable user fields to set" },
+    },
+  },
+  response: { status: 201, description: "The new user", schema: userResponse },
+  errors: {
+    409: "Another user has the same email, or the username has been taken",
+  },
+};
+
+/**
+ * Handler for the POST /v2/users endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @returns the HTTP response
+ */
+export async function handleCreateUser(
+  event: LambdaFunctionURLEvent
+): Promise<APIGatewayProxyResult> {
+  const { username, password, email, info } = parseBody<{
+    username: string;
+    password: string;
+    email: string;
+    info?: UserAttributes;
+  }>(event);
+
+  const id = await withoutEnumeration(
+    () =>
+      audited(
+        event,
+        "register",
+        { email },
+        () => registerUser(tableName, username, password, email, info),
+        (id) => ({ userId: id })
+      ),
+    CONCEALED_REGISTRATION_ERRORS
+  );
+
+  return {
+    headers: { ...headers, Location: `/user-data/v2/users/${id}` },
+    statusCode: 201,
+    body: JSON.stringify({ id, username, email }),
+  };
+}
+
+export const getUserSchema: EndpointSchema = {
+  summary: "Retrieves a user",
+  query: {
+    type: "object",
+    properties: {
+      fields: {
+        type: "string",
+        description:
+          "The retrievable user fields to return, as a comma-separated list. " +
+          "Defaults to every retrievable field.",
+      },
+    },
+  },
+  response: {
+    description: "The user's ID and the requested fields that have been set",
+    schema: { type: "object", required: ["id"], properties: { id: { type: "string" } } },
+  },
+};
+
+/**
+ * Handler for the GET /v2/users/{id} endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @param auth who made the request
+ * @returns the HTTP response
+ */
+export async function handleGetUser(
+  event: LambdaFunctionURLEvent,
+  auth: AuthContext
+): Promise<APIGatewayProxyResult> {
+  const id = getUserId(event, auth);
+  const { fields } = event.queryStringParameters ?? {};
+
+  const values = await getUserInfo(tableName, id, fields ?? retrievableUserFields().join(","));
+
+  return {
+    headers,
+    statusCode: 200,
+    body: JSON.stringify({ id, ...values }),
+  };
+}
+
+export const updateUserSchema: EndpointSchema = {
+  summary: "Updates a user",
+  body: { type: "object", description: "The editable user fields to set, and their values" },
+  response: { status: 204, description: "The fields have been set" },
+  errors: { 409: "The username has been taken" },
+};
+
+/**
+ * Handler for the PATCH /v2/users/{id} endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @param auth who made the request
+ * @returns the HTTP response
+ */
+export async function handleUpdateUser(
+  event: LambdaFunctionURLEvent,
+  auth: AuthContext
+): Promise<APIGatewayProxyResult> {
+  const id = getUserId(event, auth);
+
+  const info = parseBody<UserAttributes>(event);
+  const details = { fields: Object.keys(info) };
+  await audited(event, "fields_edit", { userId: id, details }, () =>
+    setUserInfo(tableName, id, info)
+  );
+
+  return { headers, statusCode: 204, body: "" };
+}
+
+export const deleteUserV2Schema: EndpointSchema = {
+  summary: "Deletes a user",
+  response: { status: 204, description: "The user has been deleted" },
+};
+
+/**
+ * Handler for the DELETE /v2/users/{id} endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @param auth who made the request
+ * @returns the HTTP response
+ */
+export async function handleDeleteUserV2(
+  event: LambdaFunctionURLEvent,
+  auth: AuthContext
+): Promise<APIGatewayProxyResult> {
+  const id = getUserId(event, auth);
+
+  await audited(event, "delete", { userId: id }, () => deleteUser(tableName, id));
+
+  return { headers, statusCode: 204, body: "" };
+}
+
+export const createSessionSchema: EndpointSchema = {
+  summary: "Signs a user in with their email and password",
+  description:
+    "If the user has MFA enabled, returns 202 with a challenge to complete at " +
+    "/authenticate/mfa instead.",
+  body: {
+    type: "object",
+    required: ["email", "password"],
+    properties: { email: emailProperty, password: { type: "string" } },
+  },
+  response: {
+    status: 201,
+    description: "The user, and tokens if they are enabled",
+    schema: { type: "object", properties: signedInProperties },
+  },
+  errors: {
+    401: "Incorrect email or password",
+    403: "The user has no password, or must verify their email first",
+    423: "The account has been locked after too many failed attempts",
+    429: "Too many failed attempts. Try again after the Retry-After header",
+  },
+};
+
+/**
+ * Handler for the POST /v2/sessions endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @returns the HTTP response
+ */
+export async function handleCreateSession(
+  event: LambdaFunctionURLEvent
+): Promise<APIGatewayProxyResult> {
+  const { email, password } = parseBody<{ email: string; password: string }>(event);
+
+  const { id, challenge } = await withoutEnumeration(
+    () =>
+      audited(
+        event,
+        "login",
+        { email },
+        async () =>
+          startSignIn(
+            await authenticateUser(tableName, email, password, getSourceIp(event)),
+            "login"
+          ),
+        signInAudit
+      ),
+    CONCEALED_SIGN_IN_ERRORS
+  );
+
+  // The session is only created once the MFA challenge has been completed
+  if (challenge !== undefined) {
+    return {
+      headers,
+      statusCode: 202,
+      body: JSON.stringify({ mfaRequired: true, ...challenge }),
+    };
+  }
+
+  return {
+    headers,
+    statusCode: 201,
+    body: JSON.stringify(await signedInUser(id)),
+  };
+}
+
+export const createPasswordResetSchema: EndpointSchema = {
+  summary: "Emails a password reset token to a user",
+  body: { type: "object", required: ["email"], properties: { email: emailProperty } },
+  response: { status: 202, description: "The token has been emailed" },
+  errors: { 403: "The user signed up with an OAuth provider" },
+};
+
+/**
+ * Handler for the POST /v2/password-resets endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @returns the HTTP response
+ */
+export async function handleCreatePasswordReset(
+  event: LambdaFunctionURLEvent
+): Promise<APIGatewayProxyResult> {
+  const { email } = parseBody<{ email: string }>(event);
+
+  await withoutEnumeration(
+    () =>
+      audited(event, "password_reset_request", { email }, () =>
+        sendPasswordResetToken(tableName, email)
+      ),
+    CONCEALED_RESET_REQUEST_ERRORS
+  );
+
+  return { headers, statusCode: 202, body: "" };
+}
+
+export const completePasswordResetSchema: EndpointSchema = {
+  summary: "Resets a user's password with the emailed token",
+  body: {
+    type: "object",
+    required: ["email", "token", "newPassword"],
+    properties: {
+      email: emailProperty,
+      token: {
+        type: "string",
+        description:
+          "The token emailed by POST /v2/password-resets, or the token from the reset link",
+      },
+      newPassword: { type: "string", description: "Must meet the password policy" },
+    },
+  },
+  response: { status: 204, description: "The password has been reset" },
+  errors: { 403: "The user signed up with an OAuth provider" },
+};
+
+/**
+ * Handler for the POST /v2/password-resets/complete endpoint
+ * @param event all of the info provided by Lambda about the event
+ * @returns the HTTP response
+ */
+export async function handleCompletePasswordReset(
+  event: LambdaFunctionURLEvent
+): Promise<APIGatewayProxyResult> {
+  const { email, token, newPassword } = parseBody<{
+    email: string;
+    token: string;
+    newPassword: string;
+  }>(event);
+
+  await withoutEnumeration(
+    () =>
+      audited(event, "password_reset", { email }, () =>
+        resetPassword(tableName, email, token, newPassword)
+      ),
+    CONCEALED_RESET_ERRORS
+  );
+
+  return { headers, statusCode: 204, body: "" };
+}
+
+/**
+ * This function gets the ID of the user a request acts on, from the path
+ * @param event all of the info provided by Lambda about the event
+ * @param auth who made the request
+ * @returns the user ID, or throws a 403 error if the caller cannot act on the user
+ */
+function getUserId(event: LambdaFunctionURLEvent, auth: AuthContext): string {
+  const id = event.pathParameters!.id!;
+  assertSubject(auth, id);
+  return id;
+}
@@ -0,0 +1,106 @@
+import { randomUUID } from "crypto";
+import { ENUMERATION_PROTECTION } from "./constants";
+import { invalidCredentialsError, invalidTokenError } from "./dynamo";
+import { ErrorCode, ErrorWithStatus } from "./types/errorWithStatus";
+
+// Account enumeration protection stops callers from finding out which emails have accounts, and
+// how those accounts sign in, from the responses of the routes that take an email. The functions
+// in dynamo.ts still throw errors that reveal the account, so that the audit log records what
+// really happened, and email the account's owner a notice. Handlers then replace those errors with
+// the response a caller would get if there were no account, or if it signed in with a password.
+
+// What to do instead of throwing each error that would reveal an account. Each replacement either
+// returns what the operation would have, or throws the error that a caller without an account
+// would get.
+export type ConcealedErrors<T> = { [code in ErrorCode]?: () => T };
+
+// Registering with an email that has been taken looks like it succeeded, but returns an ID that no
+// user has
+export const CONCEALED_REGISTRATION_ERRORS: ConcealedErrors<string> = {
+  EMAIL_TAKEN: () => randomUUID(),
+};
+
+// Signing in to an account without a password looks like signing in with the wrong password
+export const CONCEALED_SIGN_IN_ERRORS: ConcealedErrors<never> = {
+  WRONG_PROVIDER: () => {
+    throw invalidCredentialsError();
+  },
+};
+
+// Requesting a reset token for an email without an account, or for an account without a password,
+// looks like it succeeded
+export const CONCEALED_RESET_REQUEST_ERRORS: ConcealedErrors<string> = {
+  EMAIL_NOT_FOUND: () => "",
+  WRONG_PROVIDER: () => "",
+};
+
+// Resetting the password of an email without an account, or of an account without a password,
+// looks like using the wrong token
+export const CONCEALED_RESET_ERRORS: ConcealedErrors<void> = {
+  EMAIL_NOT_FOUND: () => {
+    throw invalidTokenError();
+  },
+  WRONG_PROVIDER: () => {
+    throw invalidTokenError();
+  },
+};
+
+// Requesting a sign in code for an email without an account, or for a disabled or deleted account,
+// looks like it succeeded
+export const CONCEALED_PASSWORDLESS_REQUEST_ERRORS: ConcealedErrors<string> = {
+  EMAIL_NOT_FOUND: () => "",
+  ACCOUNT_DISABLED: () => "",
+  ACCOUNT_DELETED: () => "",
+};
+
+// Requesting a verification token for an email without an account, or for one that has already
+// been verified, looks like it succeeded
+export const CONCEALED_VERIFICATION_REQUEST_ERRORS: ConcealedErrors<string> = {
+  EMAIL_NOT_FOUND: () => "",
+  EMAIL_ALREADY_VERIFIED: () => "",
+};
+
+// Verifying an email without an account, or one that has already been verified, looks like using
+// the wrong token
+export const CONCEALED_VERIFICATION_ERRORS: ConcealedErrors<void> = {
+  EMAIL_NOT_FOUND: () => {
+    throw invalidTokenError();
+  },
+  EMAIL_ALREADY_VERIFIED: () => {
+    throw invalidTokenError();
+  },
+};
+
+/**
+ * This function runs the operation behind a route that takes an email. If
+ * ENUMERATION_PROTECTION.enabled is set, errors that would reveal the account are replaced, and
+ * the result is held back until at least ENUMERATION_PROTECTION.minResponseMs have passed, so that
+ * every outcome takes as long. Otherwise, the operation is run as it is.
+ * @param operation the operation, e.g. registering a user
+ * @param concealed what to do instead of throwing each error that would reveal the account
+ * @returns the result of the operation, or of the replacement for its error
+ */
+export async function withoutEnumeration<T>(
+  operation: () => Promise<T>,
+  concealed: ConcealedErrors<T>
+): Promise<T> {
+  if (!ENUMERATION_PROTECTION.enabled) {
+    return await operation();
+  }
+
+  const started = Date.now();
+  try {
+    return await operation();
+  } catch (err) {
+    const replacement = err instanceof ErrorWithStatus ? concealed[err.code] : undefined;
+    if (replacement === undefined) {
+      throw err;
+    }
+    return replacement();
+  } finally {
+    const remaining = started + ENUMERATION_PROTECTION.minResponseMs - Date.now();
+    if (remaining > 0) {
+      await new Promise((resolve) => setTimeout(resolve, remaining));
+    }
+  }
+}
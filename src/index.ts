@@ -1,26 +1,323 @@
 import { Logger } from "@aws-lambda-powertools/logger";
 import { APIGatewayProxyResult, LambdaFunctionURLEvent } from "aws-lambda";
+import { randomUUID } from "crypto";
+import { AuthMethod, authorize } from "./authorization";
+import { validateRequest } from "./jsonSchema";
 import {
+  auditSchema,
+  authenticateMfaSchema,
+  authenticateSchema,
+  changePasswordSchema,
+  deleteUserSchema,
+  exportSchema,
+  getInfoSchema,
+  handleAudit,
   handleAuthenticate,
+  handleAuthenticateMfa,
   handleChangePW,
   handleDeleteUser,
+  handleExport,
   handleGetInfo,
+  handleLinkProvider,
+  handleMfaConfirm,
+  handleMfaDisable,
+  handleMfaEnroll,
   handleOauth,
+  handleOpenApi,
+  handlePasswordlessStart,
+  handlePasswordlessVerify,
+  handleRefreshToken,
   handleRegister,
+  handleResendVerification,
   handleResetPassword,
+  handleRevokeToken,
   handleSendPasswordResetToken,
   handleSetInfo,
+  handleUnlinkProvider,
+  handleVerifyEmail,
+  linkProviderSchema,
+  mfaConfirmSchema,
+  mfaDisableSchema,
+  mfaEnrollSchema,
+  oauthSchema,
+  openApiSchema,
+  passwordlessStartSchema,
+  passwordlessVerifySchema,
+  refreshTokenSchema,
+  registerSchema,
+  resendVerificationSchema,
+  resetPasswordSchema,
+  revokeTokenSchema,
+  sendPasswordResetTokenSchema,
+  setInfoSchema,
+  unlinkProviderSchema,
+  verifyEmailSchema,
 } from "./endpoints";
+import {
+  completePasswordResetSchema,
+  createPasswordResetSchema,
+  createSessionSchema,
+  createUserSchema,
+  deleteUserV2Schema,
+  getUserSchema,
+  handleCompletePasswordReset,
+  handleCreatePasswordReset,
+  handleCreateSession,
+  handleCreateUser,
+  handleDeleteUserV2,
+  handleGetUser,
+  handleUpdateUser,
+  updateUserSchema,
+} from "./endpointsV2";
+import {
+  adminDisableUserSchema,
+  adminEnableUserSchema,
+  adminForcePasswordResetSchema,
+  adminGetUserSchema,
+  adminListUsersSchema,
+  adminRestoreUserSchema,
+  handleAdminDisableUser,
+  handleAdminEnableUser,
+  handleAdminForcePasswordReset,
+  handleAdminGetUser,
+  handleAdminListUsers,
+  handleAdminRestoreUser,
+} from "./endpointsAdmin";
+import { retryQueuedMail } from "./mail";
+import { corsHeaders, findRoute } from "./router";
+import { Route } from "./types/route";
+import { ErrorEnvelope, ErrorWithStatus } from "./types/errorWithStatus";
 
 export const logger = new Logger();
 export const headers = { "Content-Type": "application/json" };
 
+// Routes that act on a single user accept that user's bearer token, or a service API key
+const USER_AUTH: AuthMethod[] = ["bearer", "apiKey"];
+
+// Routes that act on any user only accept administrators
+const ADMIN_AUTH: AuthMethod[] = ["admin"];
+
+// Users can read their own audit history, and administrators anyone's
+const AUDIT_AUTH: AuthMethod[] = [...USER_AUTH, ...ADMIN_AUTH];
+
+// Every route of the API. Paths are relative to /user-data/, optionally prefixed with the stage.
+export const routes: Route[] = [
+  { method: "POST", path: "register", handler: handleRegister, schema: registerSchema },
+  { method: "POST", path: "authenticate", handler: handleAuthenticate, schema: authenticateSchema },
+  { method: "POST", path: "handle-oauth", handler: handleOauth, schema: oauthSchema },
+  {
+    method: "POST",
+    path: "passwordless/start",
+    handler: handlePasswordlessStart,
+    schema: passwordlessStartSchema,
+  },
+  {
+    method: "POST",
+    path: "passwordless/verify",
+    handler: handlePasswordlessVerify,
+    schema: passwordlessVerifySchema,
+  },
+  { method: "PATCH", path: "set", auth: USER_AUTH, handler: handleSetInfo, schema: setInfoSchema },
+  { method: "GET", path: "get", auth: USER_AUTH, handler: handleGetInfo, schema: getInfoSchema },
+  { method: "PATCH", path: "change-pw", handler: handleChangePW, schema: changePasswordSchema },
+  {
+    method: "DELETE",
+    path: "delete",
+    auth: USER_AUTH,
+    handler: handleDeleteUser,
+    schema: deleteUserSchema,
+  },
+  { method: "GET", path: "export", auth: USER_AUTH, handler: handleExport, schema: exportSchema },
+  { method: "GET", path: "audit", auth: AUDIT_AUTH, handler: handleAudit, schema: auditSchema },
+  {
+    method: "POST",
+    path: "pw-reset-token",
+    handler: handleSendPasswordResetToken,
+    schema: sendPasswordResetTokenSchema,
+  },
+  { method: "PATCH", path: "pw-reset", handler: handleResetPassword, schema: resetPasswordSchema },
+  { method: "POST", path: "verify-email", handler: handleVerifyEmail, schema: verifyEmailSchema },
+  {
+    method: "POST",
+    path: "resend-verification",
+    handler: handleResendVerification,
+    schema: resendVerificationSchema,
+  },
+  {
+    method: "POST",
+    path: "token/refresh",
+    handler: handleRefreshToken,
+    schema: refreshTokenSchema,
+  },
+  { method: "POST", path: "token/revoke", handler: handleRevokeToken, schema: revokeTokenSchema },
+  {
+    method: "POST",
+    path: "authenticate/mfa",
+    handler: handleAuthenticateMfa,
+    schema: authenticateMfaSchema,
+  },
+  {
+    method: "POST",
+    path: "mfa/enroll",
+    auth: USER_AUTH,
+    handler: handleMfaEnroll,
+    schema: mfaEnrollSchema,
+  },
+  {
+    method: "POST",
+    path: "mfa/confirm",
+    auth: USER_AUTH,
+    handler: handleMfaConfirm,
+    schema: mfaConfirmSchema,
+  },
+  {
+    method: "POST",
+    path: "mfa/disable",
+    auth: USER_AUTH,
+    handler: handleMfaDisable,
+    schema: mfaDisableSchema,
+  },
+  {
+    method: "POST",
+    path: "link-provider",
+    auth: USER_AUTH,
+    handler: handleLinkProvider,
+    schema: linkProviderSchema,
+  },
+  {
+    method: "POST",
+    path: "unlink-provider",
+    auth: USER_AUTH,
+    handler: handleUnlinkProvider,
+    schema: unlinkProviderSchema,
+  },
+  { method: "GET", path: "openapi.json", handler: handleOpenApi, schema: openApiSchema },
+  // v2 resource API
+  { method: "POST", path: "v2/users", handler: handleCreateUser, schema: createUserSchema },
+  {
+    method: "GET",
+    path: "v2/users/{id}",
+    auth: USER_AUTH,
+    handler: handleGetUser,
+    schema: getUserSchema,
+  },
+  {
+    method: "PATCH",
+    path: "v2/users/{id}",
+    auth: USER_AUTH,
+    handler: handleUpdateUser,
+    schema: updateUserSchema,
+  },
+  {
+    method: "DELETE",
+    path: "v2/users/{id}",
+    auth: USER_AUTH,
+    handler: handleDeleteUserV2,
+    schema: deleteUserV2Schema,
+  },
+  {
+    method: "POST",
+    path: "v2/sessions",
+    handler: handleCreateSession,
+    schema: createSessionSchema,
+  },
+  {
+    method: "POST",
+    path: "v2/password-resets",
+    handler: handleCreatePasswordReset,
+    schema: createPasswordResetSchema,
+  },
+  {
+    method: "POST",
+    path: "v2/password-resets/complete",
+    handler: handleCompletePasswordReset,
+    schema: completePasswordResetSchema,
+  },
+  // Admin API
+  {
+    method: "GET",
+    path: "admin/users",
+    auth: ADMIN_AUTH,
+    handler: handleAdminListUsers,
+    schema: adminListUsersSchema,
+  },
+  {
+    method: "GET",
+    path: "admin/users/{id}",
+    auth: ADMIN_AUTH,
+    handler: handleAdminGetUser,
+    schema: adminGetUserSchema,
+  },
+  {
+    method: "POST",
+    path: "admin/users/{id}/password-reset",
+    auth: ADMIN_AUTH,
+    handler: handleAdminForcePasswordReset,
+    schema: adminForcePasswordResetSchema,
+  },
+  {
+    method: "POST",
+    path: "admin/users/{id}/disable",
+    auth: ADMIN_AUTH,
+    handler: handleAdminDisableUser,
+    schema: adminDisableUserSchema,
+  },
+  {
+    method: "POST",
+    path: "admin/users/{id}/enable",
+    auth: ADMIN_AUTH,
+    handler: handleAdminEnableUser,
+    schema: adminEnableUserSchema,
+  },
+  {
+    method: "POST",
+    path: "admin/users/{id}/restore",
+    auth: ADMIN_AUTH,
+    handler: handleAdminRestoreUser,
+    schema: adminRestoreUserSchema,
+  },
+];
+
 /**
  * Handler for all the requests made to the user data API
  * @param event all of the info provided by Lambda about the enent
  * @returns the HTTP response
  */
 export async function handler(event: LambdaFunctionURLEvent): Promise<APIGatewayProxyResult> {
+  // The schedule in terraform/main.tf invokes the Lambda to retry emails that failed to send
+  if (isScheduledEvent(event)) {
+    const report = await retryQueuedMail();
+    return { statusCode: 200, body: JSON.stringify(report) };
+  }
+
+  // Lambda URL events have an ID, but invokes from the aws-sdk lambda client library may not
+  const requestId: string = event.requestContext?.requestId ?? randomUUID();
+  logger.appendKeys({ requestId });
+
+  let response: APIGatewayProxyResult;
+  try {
+    response = await routeRequest(event);
+  } catch (error) {
+    response = errorResponse(error, requestId);
+  }
+
+  return {
+    ...response,
+    headers: {
+      ...headers,
+      ...corsHeaders(event),
+      "X-Request-Id": requestId,
+      ...response.headers,
+    },
+  };
+}
+
+/**
+ * Passes a request to the handler of its route
+ * @param event all of the info provided by Lambda about the event
+ * @returns the HTTP response, or throws an ErrorWithStatus
+ */
+async function routeRequest(event: LambdaFunctionURLEvent): Promise<APIGatewayProxyResult> {
   let httpMethod: string;
   let path: string;
 
@@ -41,73 +338,91 @@ export async function handler(event: LambdaFunctionURLEvent): Promise<APIGateway
 
   // Ensuring the path is provided
   if (!path) {
-    logger.error("Path was not provided to the handler.");
-    return {
-      headers,
-      statusCode: 400,
-      body: JSON.stringify({ message: "No path provided" }),
-    };
+    throw new ErrorWithStatus("No path provided", 400);
   }
 
   // Ensuring the httpMethod is provided
   if (!httpMethod) {
-    logger.error("httpMethod was not provided to the handler.");
-    return {
-      headers,
-      statusCode: 405,
-      body: JSON.stringify({ message: "No httpMethod provided" }),
-    };
+    throw new ErrorWithStatus("No httpMethod provided", 405);
   }
 
-  if (httpMethod === "POST" && isCorrectPath(path, "register")) {
-    return handleRegister(event);
-  }
+  const { match, allowedMethods } = findRoute(routes, httpMethod, path);
 
-  if (httpMethod === "POST" && isCorrectPath(path, "authenticate")) {
-    return handleAuthenticate(event);
+  // Catch all for random paths
+  if (allowedMethods.length === 0) {
+    throw new ErrorWithStatus("Unrecognised path and method combination", 404);
   }
 
-  if (httpMethod === "POST" && isCorrectPath(path, "handle-oauth")) {
-    return handleOauth(event);
-  }
-
-  if (httpMethod === "PATCH" && isCorrectPath(path, "set")) {
-    return handleSetInfo(event);
-  }
-
-  if (httpMethod === "GET" && isCorrectPath(path, "get")) {
-    return handleGetInfo(event);
+  // Answer CORS preflight requests for every known path
+  if (httpMethod.toUpperCase() === "OPTIONS") {
+    return {
+      headers: corsHeaders(event, [...allowedMethods, "OPTIONS"]),
+      statusCode: 204,
+      body: "",
+    };
   }
 
-  if (httpMethod === "PATCH" && isCorrectPath(path, "change-pw")) {
-    return handleChangePW(event);
+  if (match === undefined) {
+    const error = new ErrorWithStatus(`Method ${httpMethod} is not allowed on this path`, 405);
+    error.headers = { Allow: [...allowedMethods, "OPTIONS"].join(", ") };
+    throw error;
   }
 
-  if (httpMethod === "DELETE" && isCorrectPath(path, "delete")) {
-    return handleDeleteUser(event);
+  event.pathParameters = match.params;
+  const { route } = match;
+  if ("auth" in route) {
+    const auth = await authorize(event, route.auth);
+    validateRequest(event, route.schema);
+    return route.handler(event, auth);
   }
+  validateRequest(event, route.schema);
+  return route.handler(event);
+}
 
-  if (httpMethod === "POST" && isCorrectPath(path, "pw-reset-token")) {
-    return handleSendPasswordResetToken(event);
+/**
+ * Turns an error thrown while handling a request into the error envelope. Errors other than
+ * ErrorWithStatus are unexpected, so their messages are logged but not returned.
+ * @param error the error that was thrown
+ * @param requestId the ID of the request
+ * @returns the HTTP response
+ */
+function errorResponse(error: unknown, requestId: string): APIGatewayProxyResult {
+  let known: ErrorWithStatus;
+  if (error instanceof ErrorWithStatus) {
+    known = error;
+  } else if (error instanceof SyntaxError) {
+    // Thrown by JSON.parse when handlers read the body
+    known = new ErrorWithStatus("Body is not valid JSON", 400, "INVALID_JSON");
+  } else {
+    known = new ErrorWithStatus("Internal server error", 500);
   }
 
-  if (httpMethod === "PATCH" && isCorrectPath(path, "pw-reset")) {
-    return handleResetPassword(event);
+  if (known.statusCode >= 500) {
+    logger.error(`Error handling request: ${known.code}`, error as Error);
+  } else {
+    logger.warn(`Request failed: ${known.code}`, { message: known.message });
   }
 
-  // Catch all for random httpMethod and path combinations
+  const envelope: ErrorEnvelope = {
+    code: known.code,
+    message: known.message,
+    details: known.details,
+    requestId,
+  };
   return {
-    statusCode: 404,
-    body: JSON.stringify({ message: "Unrecognised path and method combination" }),
+    headers: known.headers,
+    statusCode: known.statusCode,
+    body: JSON.stringify(envelope),
   };
 }
 
 /**
- * Handler for all the requests made to the user data API
- * @param path the path provided by the user
- * @param correctPath the ideal path to test against
- * @returns boolean of whether or not the regex matches
+ * This function checks whether the Lambda was invoked by an EventBridge schedule, rather than a
+ * request
+ * @param event the event the Lambda was invoked with
+ * @returns whether the event is a scheduled event
  */
-function isCorrectPath(path: string, correctPath: string): boolean {
-  return new RegExp(`^(/(dev|staging|prod))?/user-data/${correctPath}$`).test(path);
+function isScheduledEvent(event: unknown): boolean {
+  const { source, "detail-type": detailType } = (event ?? {}) as { [key: string]: unknown };
+  return source === "aws.events" && detailType === "Scheduled Event";
 }
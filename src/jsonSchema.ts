@@ -0,0 +1,173 @@
+import { LambdaFunctionURLEvent } from "aws-lambda";
+import { ErrorWithStatus } from "./types/errorWithStatus";
+import { EndpointSchema, JsonSchema } from "./types/schema";
+
+// Checks whether a value, parsed from JSON, has each schema type
+const TYPE_CHECKS: { [type in NonNullable<JsonSchema["type"]>]: (value: unknown) => boolean } = {
+  string: (value) => typeof value === "string",
+  number: (value) => typeof value === "number" && Number.isFinite(value),
+  integer: (value) => Number.isInteger(value),
+  boolean: (value) => typeof value === "boolean",
+  array: (value) => Array.isArray(value),
+  object: (value) => typeof value === "object" && value !== null && !Array.isArray(value),
+};
+
+// A value that did not match its schema, and why
+export interface SchemaViolation {
+  // Where the value is, e.g. "body.info.age"
+  path: string;
+  message: string;
+}
+
+/**
+ * This function checks a request against the schema of its endpoint, so that handlers only have
+ * to deal with well-formed input
+ * @param event all of the info provided by Lambda about the event
+ * @param schema the schema of the endpoint
+ * @returns nothing, throws a 400 error listing every violation in details.violations
+ */
+export function validateRequest(event: LambdaFunctionURLEvent, schema: EndpointSchema) {
+  const violations: SchemaViolation[] = [];
+
+  if (schema.body !== undefined) {
+    violations.push(...validateJson(schema.body, parseBody(event), "body"));
+  }
+  if (schema.query !== undefined) {
+    violations.push(...validateJson(schema.query, getQuery(event), "query"));
+  }
+
+  if (violations.length > 0) {
+    throw new ErrorWithStatus(
+      `Invalid request: ${violations[0].path} ${violations[0].message}`,
+      400,
+      "INVALID_REQUEST",
+      { violations }
+    );
+  }
+}
+
+/**
+ * This function parses the JSON body of a request
+ * @param event all of the info provided by Lambda about the event
+ * @returns the parsed body, or an empty object if there is no body. Its shape T is not checked
+ * here, as validateRequest checks the body against the endpoint's schema before handlers run.
+ */
+export function parseBody<T>(event: LambdaFunctionURLEvent): T {
+  return event.body ? JSON.parse(event.body) : ({} as T);
+}
+
+/**
+ * This function gets the query string parameters of a request. GET requests without any fall
+ * back to the JSON body, for clients written before the parameters moved to the query string.
+ * @param event all of the info provided by Lambda about the event
+ * @returns the query string parameters, of the shape T that the endpoint's schema describes
+ */
+export function getQuery<T>(event: LambdaFunctionURLEvent): T {
+  const query = event.queryStringParameters;
+  if ((query === undefined || Object.keys(query).length === 0) && event.body) {
+    return parseBody<T>(event);
+  }
+  return (query ?? {}) as T;
+}
+
+/**
+ * This function checks a value against a JSON schema
+ * @param schema the schema to check against
+ * @param value the value to check
+ * @param path where the value is, for the violations
+ * @returns every violation found, empty if the value matches
+ */
+export function validateJson(schema: JsonSchema, value: unknown, path: string): SchemaViolation[] {
+  if (schema.type !== undefined && !TYPE_CHECKS[schema.type](value)) {
+    return [{ path, message: `must be of type ${schema.type}` }];
+  }
+  if (schema.enum !== undefined && !schema.enum.includes(value)) {
+    return [{ path, message: `must be one of: ${schema.enum.join(", ")}` }];
+  }
+
+  if (typeof value === "string") {
+    return validateString(schema, value, path);
+  }
+  if (typeof value === "number") {
+    return validateNumber(schema, value, path);
+  }
+  if (Array.isArray(value)) {
+    const items = schema.items ?? {};
+    return value.flatMap((item, i) => validateJson(items, item, `${path}[${i}]`));
+  }
+  if (typeof value === "object" && value !== null) {
+    return validateObject(schema, value as { [name: string]: unknown }, path);
+  }
+  return [];
+}
+
+/**
+ * This function checks a string against the string keywords of a schema
+ * @param schema the schema to check against
+ * @param value the string to check
+ * @param path where the string is
+ * @returns every violation found
+ */
+function validateString(schema: JsonSchema, value: string, path: string): SchemaViolation[] {
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    return [{ path, message: `must have at least ${schema.minLength} characters` }];
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    return [{ path, message: `must have at most ${schema.maxLength} characters` }];
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+    return [{ path, message: `must match ${schema.pattern}` }];
+  }
+  return [];
+}
+
+/**
+ * This function checks a number against the number keywords of a schema
+ * @param schema the schema to check against
+ * @param value the number to check
+ * @param path where the number is
+ * @returns every violation found
+ */
+function validateNumber(schema: JsonSchema, value: number, path: string): SchemaViolation[] {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    return [{ path, message: `must be at least ${schema.minimum}` }];
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    return [{ path, message: `must be at most ${schema.maximum}` }];
+  }
+  return [];
+}
+
+/**
+ * This function checks an object against the object keywords of a schema
+ * @param schema the schema to check against
+ * @param value the object to check
+ * @param path where the object is
+ * @returns every violation found
+ */
+function validateObject(
+  schema: JsonSchema,
+  value: { [name: string]: unknown },
+  path: string
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+
+  (schema.required ?? []).forEach((name) => {
+    if (value[name] === undefined) {
+      violations.push({ path: `${path}.${name}`, message: "is required" });
+    }
+  });
+
+  Object.entries(value).forEach(([name, property]) => {
+    const propertySchema = schema.properties?.[name];
+    if (propertySchema !== undefined) {
+      violations.push(...validateJson(propertySchema, property, `${path}.${name}`));
+    } else if (schema.additionalProperties === false) {
+      violations.push({ path: `${path}.${name}`, message: "is not allowed" });
+    } else if (typeof schema.additionalProperties === "object") {
+      violations.push(...validateJson(schema.additionalProperties, property, `${path}.${name}`));
+    }
+  });
+
+  return violations;
+}
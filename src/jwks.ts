@@ -0,0 +1,82 @@
+import { createPublicKey, JsonWebKey, KeyObject } from "crypto";
+import { readFileSync } from "fs";
+import { ErrorWithStatus } from "./types/errorWithStatus";
+
+// Where to load a JSON Web Key Set from. A local file takes precedence over a URI.
+export interface JwksSource {
+  file?: string;
+  uri?: string;
+}
+
+// How long fetched key sets are cached for, and the minimum time between refetches when a token
+// names a key that is not in the cached set (e.g. after the issuer rotates its keys)
+const CACHE_SECONDS = 60 * 60;
+const REFETCH_COOLDOWN_SECONDS = 60;
+
+const cache = new Map<string, { keys: JsonWebKey[]; fetchedAt: number }>();
+
+/**
+ * This function finds the public key with the given key ID in a JSON Web Key Set. Files are read
+ * once and fetched sets are cached, so this is cheap to call on every request.
+ * @param source where to load the key set from
+ * @param kid the key ID from the token's header. If omitted, the set must contain a single key.
+ * @returns the public key, throws a 401 error if there is no matching key
+ */
+export async function getJwksKey(source: JwksSource, kid?: string): Promise<KeyObject> {
+  let keys = await loadJwks(source, false);
+  let jwk = findKey(keys, kid);
+
+  // The issuer may have rotated its keys since we last fetched them
+  if (jwk === undefined && source.file === undefined) {
+    keys = await loadJwks(source, true);
+    jwk = findKey(keys, kid);
+  }
+
+  if (jwk === undefined) {
+    throw new ErrorWithStatus("Invalid Token", 401, "INVALID_TOKEN");
+  }
+  return createPublicKey({ key: jwk, format: "jwk" });
+}
+
+async function loadJwks(source: JwksSource, refresh: boolean): Promise<JsonWebKey[]> {
+  const cacheKey = source.file !== undefined ? `file:${source.file}` : `uri:${source.uri}`;
+  const cached = cache.get(cacheKey);
+  const age = cached === undefined ? Infinity : (Date.now() - cached.fetchedAt) / 1000;
+
+  if (cached !== undefined) {
+    // Files are only read once
+    const fresh = source.file !== undefined || age < CACHE_SECONDS;
+    const mayRefetch = refresh && age >= REFETCH_COOLDOWN_SECONDS;
+    if (fresh && !mayRefetch) {
+      return cached.keys;
+    }
+  }
+
+  let jwks: { keys?: JsonWebKey[] };
+  if (source.file !== undefined) {
+    jwks = JSON.parse(readFileSync(source.file, "utf8"));
+  } else if (source.uri !== undefined) {
+    const response = await fetch(source.uri);
+    if (!response.ok) {
+      throw new ErrorWithStatus(
+        `Unable to fetch JWKS from ${source.uri}`,
+        500,
+        "CONFIGURATION_ERROR"
+      );
+    }
+    jwks = await response.json();
+  } else {
+    throw new ErrorWithStatus("No JWKS has been configured", 500, "CONFIGURATION_ERROR");
+  }
+
+  const keys = jwks.keys ?? [];
+  cache.set(cacheKey, { keys, fetchedAt: Date.now() });
+  return keys;
+}
+
+function findKey(keys: JsonWebKey[], kid?: string): JsonWebKey | undefined {
+  if (kid === undefined) {
+    return keys.length === 1 ? keys[0] : undefined;
+  }
+  return keys.find((key) => key.kid === kid);
+}
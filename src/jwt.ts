@@ -0,0 +1,157 @@
+import { createHmac, KeyObject, timingSafeEqual, verify } from "crypto";
+import { ErrorWithStatus } from "./types/errorWithStatus";
+
+// The registered claims this service reads, plus any other claims
+export interface JwtPayload {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  iat?: number;
+  nbf?: number;
+  [claim: string]: unknown;
+}
+
+// The JOSE header of a JWT
+export interface JwtHeader {
+  alg?: string;
+  kid?: string;
+  typ?: string;
+}
+
+export interface JwtVerifyOptions {
+  // Secret for HS256 signatures. Tokens signed with HS256 are rejected if this is not set.
+  secret?: string;
+  // Public key for RS256 and ES256 signatures, e.g. from a JWKS. Tokens signed with either are
+  // rejected if this is not set.
+  publicKey?: KeyObject;
+  // If set, the iss claim must match (one of) these
+  issuer?: string | string[];
+  // If set, the aud claim must contain this audience
+  audience?: string;
+  // Allowed clock skew when checking exp and nbf
+  clockToleranceSeconds?: number;
+}
+
+/**
+ * This function creates a JWT signed with HS256
+ * @param payload the claims to sign
+ * @param secret the secret to sign with
+ * @returns the encoded token
+ */
+export function signJwt(payload: JwtPayload, secret: string): string {
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const body = base64url(JSON.stringify(payload));
+  const signature = createHmac("sha256", secret).update(`${header}.${body}`).digest();
+  return `${header}.${body}.${base64url(signature)}`;
+}
+
+/**
+ * This function verifies a JWT's signature and registered claims
+ * @param token the encoded token
+ * @param options how to verify the token
+ * @returns the token's payload, throws a 401 error if the token is invalid or expired
+ */
+export function verifyJwt(token: string, options: JwtVerifyOptions): JwtPayload {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw invalidTokenError();
+  }
+  const [header, body, signature] = parts;
+
+  let decodedHeader: JwtHeader;
+  let payload: JwtPayload;
+  try {
+    decodedHeader = JSON.parse(Buffer.from(header, "base64url").toString());
+    payload = JSON.parse(Buffer.from(body, "base64url").toString());
+  } catch (e) {
+    throw invalidTokenError();
+  }
+
+  let valid: boolean;
+  try {
+    valid = verifySignature(decodedHeader.alg, `${header}.${body}`, signature, options);
+  } catch (e) {
+    // Malformed signatures can make the crypto library throw
+    valid = false;
+  }
+  if (!valid) {
+    throw invalidTokenError();
+  }
+
+  checkClaims(payload, options);
+  return payload;
+}
+
+/**
+ * This function reads the header of a JWT without verifying it, e.g. to find which key signed it
+ * @param token the encoded token
+ * @returns the token's header, throws a 401 error if the token is malformed
+ */
+export function decodeJwtHeader(token: string): JwtHeader {
+  try {
+    return JSON.parse(Buffer.from(token.split(".")[0], "base64url").toString());
+  } catch (e) {
+    throw invalidTokenError();
+  }
+}
+
+// Only algorithms with a matching key configured are accepted, so that "none" and key confusion
+// attacks (e.g. an HS256 token "signed" with a public key) fail
+function verifySignature(
+  alg: string | undefined,
+  signingInput: string,
+  signature: string,
+  options: JwtVerifyOptions
+): boolean {
+  const actual = Buffer.from(signature, "base64url");
+
+  if (alg === "HS256" && options.secret !== undefined) {
+    const expected = createHmac("sha256", options.secret).update(signingInput).digest();
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+  if (alg === "RS256" && options.publicKey?.asymmetricKeyType === "rsa") {
+    return verify("RSA-SHA256", Buffer.from(signingInput), options.publicKey, actual);
+  }
+  if (alg === "ES256" && options.publicKey?.asymmetricKeyType === "ec") {
+    return verify(
+      "sha256",
+      Buffer.from(signingInput),
+      { key: options.publicKey, dsaEncoding: "ieee-p1363" },
+      actual
+    );
+  }
+  return false;
+}
+
+function checkClaims(payload: JwtPayload, options: JwtVerifyOptions) {
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockToleranceSeconds ?? 0;
+
+  if (typeof payload.exp !== "number" || payload.exp + tolerance <= now) {
+    throw new ErrorWithStatus("Token has expired", 401, "TOKEN_EXPIRED");
+  }
+  if (typeof payload.nbf === "number" && payload.nbf - tolerance > now) {
+    throw invalidTokenError();
+  }
+  if (options.issuer !== undefined) {
+    const issuers = Array.isArray(options.issuer) ? options.issuer : [options.issuer];
+    if (typeof payload.iss !== "string" || !issuers.includes(payload.iss)) {
+      throw invalidTokenError();
+    }
+  }
+  if (options.audience !== undefined) {
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audiences.includes(options.audience)) {
+      throw invalidTokenError();
+    }
+  }
+}
+
+function invalidTokenError(): ErrorWithStatus {
+  return new ErrorWithStatus("Invalid Token", 401, "INVALID_TOKEN");
+}
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64url");
+}
@@ -0,0 +1,118 @@
+import { LOGIN_THROTTLE, recordStore } from "./constants";
+import { ErrorWithStatus } from "./types/errorWithStatus";
+import { logger } from ".";
+
+// The failed login attempts against an account or source IP, and when they are blocked until, in
+// milliseconds since the epoch
+interface ThrottleRecord {
+  failures: number;
+  blocked_until?: number;
+}
+
+/**
+ * This function checks whether a login attempt may go ahead, before the password is checked
+ * @param email the email being signed in to
+ * @param sourceIp the IP address the request came from, if known
+ * @returns nothing, throws a 423 error if the account is locked, or a 429 error if the caller must
+ * wait before trying again. Both set the Retry-After header.
+ */
+export async function checkLoginAllowed(email: string, sourceIp?: string) {
+  const now = Date.now();
+
+  const account = await recordStore.get<ThrottleRecord>(accountKey(email));
+  if (account?.blocked_until !== undefined && account.blocked_until > now) {
+    throw blockedError(
+      account.failures >= LOGIN_THROTTLE.accountLockoutThreshold,
+      account.blocked_until,
+      now
+    );
+  }
+
+  if (sourceIp !== undefined) {
+    const ip = await recordStore.get<ThrottleRecord>(ipKey(sourceIp));
+    if (ip?.blocked_until !== undefined && ip.blocked_until > now) {
+      // IP addresses are never locked outright, as many users may share one
+      throw blockedError(false, ip.blocked_until, now);
+    }
+  }
+}
+
+/**
+ * This function records a failed login attempt against the account and the source IP, and blocks
+ * further attempts for an escalating delay, or locks them out once the thresholds in constants.ts
+ * are reached
+ * @param email the email that failed to sign in
+ * @param sourceIp the IP address the request came from, if known
+ */
+export async function recordLoginFailure(email: string, sourceIp?: string) {
+  await recordFailure(accountKey(email), LOGIN_THROTTLE.accountLockoutThreshold, { email });
+  if (sourceIp !== undefined) {
+    await recordFailure(ipKey(sourceIp), LOGIN_THROTTLE.ipLockoutThreshold, { sourceIp });
+  }
+}
+
+/**
+ * This function clears the failed login attempts and any lockout on an account, after a successful
+ * login or password reset. Source IP counters are left to expire, so that signing in to one account
+ * does not reset the count of failures against others.
+ * @param email the email of the account
+ */
+export async function clearLoginFailures(email: string) {
+  await recordStore.delete(accountKey(email));
+}
+
+async function recordFailure(key: string, lockoutThreshold: number, context: object) {
+  const now = Date.now();
+  const windowEnd = new Date(now + LOGIN_THROTTLE.failureWindowSeconds * 1000);
+  const failures = await recordStore.increment(key, "failures", windowEnd);
+
+  let blockSeconds = 0;
+  if (failures >= lockoutThreshold) {
+    blockSeconds = LOGIN_THROTTLE.lockoutSeconds;
+    logger.warn("Locking out login attempts after repeated failures", { ...context, failures });
+  } else if (failures >= LOGIN_THROTTLE.delayAfterFailures) {
+    // Double the delay with each failure past the threshold
+    const exponent = failures - LOGIN_THROTTLE.delayAfterFailures;
+    blockSeconds = Math.min(
+      LOGIN_THROTTLE.baseDelaySeconds * 2 ** exponent,
+      LOGIN_THROTTLE.maxDelaySeconds
+    );
+  }
+
+  if (blockSeconds > 0) {
+    const blockedUntil = now + blockSeconds * 1000;
+    await recordStore.update(
+      key,
+      { blocked_until: blockedUntil },
+      new Date(Math.max(windowEnd.getTime(), blockedUntil))
+    );
+  }
+}
+
+function blockedError(locked: boolean, blockedUntil: number, now: number) {
+  let error: ErrorWithStatus;
+  if (locked) {
+    error = new ErrorWithStatus(
+      "This account has been temporarily locked due to too many failed login attempts",
+      423,
+      "ACCOUNT_LOCKED"
+    );
+  } else {
+    error = new ErrorWithStatus(
+      "Too many failed login attempts. Please try again later.",
+      429,
+      "RATE_LIMITED"
+    );
+  }
+  error.headers = { "Retry-After": `${Math.ceil((blockedUntil - now) / 1000)}` };
+  return error;
+}
+
+// Emails are compared case-insensitively here so that changing case does not dodge the counter
+function accountKey(email: string): string {
+  return `login#account#${email.toLowerCase()}`;
+}
+
+function ipKey(sourceIp: string): string {
+  return `login#ip#${sourceIp}`;
+}
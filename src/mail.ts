@@ -0,0 +1,108 @@
+import { randomUUID } from "crypto";
+import { MAIL_RETRY_SETTINGS, mailQueue, mailTransport } from "./constants";
+import { MailMessage } from "./types/mailTransport";
+import { QueuedMail } from "./types/mailQueue";
+import { logger } from ".";
+
+// Emails are sent through the transport selected by MAIL_TRANSPORT. By the time an email is sent,
+// whatever it is about (e.g. a password reset token) has already been saved, so an email that
+// fails to send is queued and retried later rather than failing the request.
+
+// What happened to the emails retried by retryQueuedMail
+export interface MailRetryReport {
+  sent: number;
+  // Emails that failed again, and will be retried later
+  requeued: number;
+  // Emails that failed for the last time, and were dropped
+  abandoned: number;
+}
+
+/**
+ * This function sends an email, queueing it to be retried if it cannot be sent
+ * @param message the email
+ * @param expiresAt when the email stops being worth sending, e.g. when the token in it expires.
+ * Queued emails are dropped then, so that secrets are not kept any longer than they can be used.
+ * @returns whether the email was sent straight away
+ */
+export async function deliverMail(message: MailMessage, expiresAt?: Date): Promise<boolean> {
+  try {
+    await mailTransport.send(message);
+    return true;
+  } catch (err) {
+    const error = errorMessage(err);
+    logger.warn("Unable to send email, queueing it to retry", { error });
+
+    const now = new Date();
+    await queue({
+      id: randomUUID(),
+      message,
+      queuedAt: now,
+      attempts: 1,
+      nextAttemptAt: retryTime(now, 1),
+      lastError: error,
+      expiresAt,
+    });
+    return false;
+  }
+}
+
+/**
+ * This function retries the queued emails that are due. Emails that fail again are retried later,
+ * waiting exponentially longer each time, until MAIL_RETRY_SETTINGS.maxAttempts have been made,
+ * MAIL_RETRY_SETTINGS.giveUpAfterHours have passed, or what they are about has expired.
+ * @param now the current time
+ * @returns how many emails were sent, requeued and abandoned
+ */
+export async function retryQueuedMail(now = new Date()): Promise<MailRetryReport> {
+  const report: MailRetryReport = { sent: 0, requeued: 0, abandoned: 0 };
+
+  const due = await mailQueue.listDue(now, MAIL_RETRY_SETTINGS.batchSize);
+  for (const mail of due) {
+    try {
+      await mailTransport.send(mail.message);
+      await mailQueue.remove(mail.id);
+      report.sent++;
+    } catch (err) {
+      const error = errorMessage(err);
+      const attempts = mail.attempts + 1;
+      const nextAttemptAt = retryTime(now, attempts);
+      if (attempts >= MAIL_RETRY_SETTINGS.maxAttempts || nextAttemptAt >= giveUpTime(mail)) {
+        logger.error("Giving up on sending email", { attempts, error });
+        await mailQueue.remove(mail.id);
+        report.abandoned++;
+      } else {
+        await queue({ ...mail, attempts, nextAttemptAt, lastError: error });
+        report.requeued++;
+      }
+    }
+  }
+
+  if (due.length > 0) {
+    logger.info("Retried queued emails", { ...report });
+  }
+  return report;
+}
+
+// Queued emails expire once it is time to give up on them
+async function queue(mail: QueuedMail) {
+  await mailQueue.put(mail, giveUpTime(mail));
+}
+
+// Emails are given up on after giveUpAfterHours, or sooner if what they are about expires first
+function giveUpTime(mail: QueuedMail): Date {
+  const giveUpAt = mail.queuedAt.getTime() + MAIL_RETRY_SETTINGS.giveUpAfterHours * 60 * 60 * 1000;
+  return new Date(Math.min(giveUpAt, mail.expiresAt?.getTime() ?? giveUpAt));
+}
+
+// Waits baseDelaySeconds after the first attempt, then twice as long after each one after that
+function retryTime(now: Date, attempts: number): Date {
+  const delay = Math.min(
+    MAIL_RETRY_SETTINGS.baseDelaySeconds * 2 ** (attempts - 1),
+    MAIL_RETRY_SETTINGS.maxDelaySeconds
+  );
+  return new Date(now.getTime() + delay * 1000);
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
@@ -0,0 +1,239 @@
+import bcrypt from "bcryptjs";
+import { randomBytes, randomUUID } from "crypto";
+import { MFA_SETTINGS, recordStore, userStore } from "./constants";
+import { generateTotpSecret, totpUri, verifyTotp } from "./totp";
+import { AuditEventType } from "./types/auditStore";
+import { ErrorWithStatus } from "./types/errorWithStatus";
+import { UserItem } from "./types/userStore";
+import { logger } from ".";
+
+// A challenge issued to a user who has passed the first factor. sign_in is the type of sign in
+// that the challenge completes, so that it is audited as one. expires is in milliseconds since the
+// epoch.
+interface MfaChallenge {
+  user_id: string;
+  sign_in: AuditEventType;
+  attempts: number;
+  expires: number;
+}
+
+/**
+ * This function starts enrolling a user in TOTP multi-factor authentication. MFA is not enabled
+ * until the user confirms they have set up their authenticator app with a first code.
+ * @param table the table to read from/write to in DynamoDB
+ * @param userId the user_id of the user to enroll
+ * @returns the secret and the otpauth:// URI to show the user, e.g. as a QR code
+ */
+export async function startMfaEnrollment(table: string, userId: string) {
+  const user = await getUser(table, userId);
+  if (user.mfa_enabled) {
+    throw new ErrorWithStatus("MFA is already enabled", 409, "MFA_ALREADY_ENABLED");
+  }
+
+  // Starting again replaces any enrollment that was never confirmed
+  const secret = generateTotpSecret();
+  await userStore.editUser(table, userId, { "mfa_pending_secret": secret });
+
+  return { secret, otpauthUri: totpUri(secret, user.email, MFA_SETTINGS.issuer) };
+}
+
+/**
+ * This function finishes enrolling a user in MFA, once they provide a code from their app
+ * @param table the table to read from/write to in DynamoDB
+ * @param userId the user_id of the user to enroll
+ * @param code the first code from the user's authenticator app
+ * @returns one-time recovery codes, which are only ever shown to the user here
+ */
+export async function confirmMfaEnrollment(
+  table: string,
+  userId: string,
+  code: string
+): Promise<string[]> {
+  const user = await getUser(table, userId);
+  if (user.mfa_enabled) {
+    throw new ErrorWithStatus("MFA is already enabled", 409, "MFA_ALREADY_ENABLED");
+  }
+  if (!user.mfa_pending_secret) {
+    throw new ErrorWithStatus(
+      "MFA enrollment has not been started",
+      400,
+      "MFA_ENROLLMENT_NOT_STARTED"
+    );
+  }
+
+  const step = verifyTotp(user.mfa_pending_secret, code);
+  if (step === undefined) {
+    throw new ErrorWithStatus("Invalid MFA Code", 400, "INVALID_MFA_CODE");
+  }
+
+  // Recovery codes are stored hashed, like passwords
+  const recoveryCodes = Array.from({ length: MFA_SETTINGS.recoveryCodeCount }, () =>
+    randomBytes(5).toString("hex")
+  );
+  const hashedCodes = await Promise.all(recoveryCodes.map((code) => bcrypt.hash(code, 10)));
+
+  await userStore.editUser(table, userId, {
+    "mfa_enabled": true,
+    "mfa_secret": user.mfa_pending_secret,
+    "mfa_pending_secret": "",
+    "mfa_last_step": step,
+    "mfa_recovery_codes": hashedCodes,
+  });
+  logger.info("MFA enabled", { userId });
+
+  return recoveryCodes;
+}
+
+/**
+ * This function turns off MFA for a user
+ * @param table the table to read from/write to in DynamoDB
+ * @param userId the user_id of the user
+ * @param code a current code from the user's app, or one of their recovery codes
+ */
+export async function disableMfa(table: string, userId: string, code: string) {
+  const user = await getUser(table, userId);
+  if (!user.mfa_enabled) {
+    throw new ErrorWithStatus("MFA is not enabled", 400, "MFA_NOT_ENABLED");
+  }
+
+  if (!(await verifyMfaCode(table, user, code))) {
+    throw new ErrorWithStatus("Invalid MFA Code", 400, "INVALID_MFA_CODE");
+  }
+
+  await userStore.editUser(table, userId, {
+    "mfa_enabled": false,
+    "mfa_secret": "",
+    "mfa_pending_secret": "",
+    "mfa_recovery_codes": [],
+  });
+  logger.info("MFA disabled", { userId });
+}
+
+/**
+ * This function checks whether a user must provide an MFA code to sign in
+ * @param table the table to read from in DynamoDB
+ * @param userId the user_id of the user
+ * @returns whether MFA is enabled
+ */
+export async function isMfaEnabled(table: string, userId: string): Promise<boolean> {
+  const user = await userStore.getUser(table, userId, ["mfa_enabled"]);
+  return user?.mfa_enabled === true;
+}
+
+/**
+ * This function creates a short-lived challenge for a user who has passed the first factor
+ * @param userId the user_id of the user signing in
+ * @param signIn the type of sign in the challenge completes, e.g. oauth_login
+ * @returns the challenge ID, which must be passed back with a code, and its lifetime in seconds
+ */
+export async function createMfaChallenge(userId: string, signIn: AuditEventType) {
+  const challenge = randomUUID();
+  const expiresAt = new Date(Date.now() + MFA_SETTINGS.challengeSeconds * 1000);
+  await recordStore.put(
+    challengeKey(challenge),
+    { user_id: userId, sign_in: signIn, attempts: 0, expires: expiresAt.getTime() },
+    expiresAt
+  );
+  return { challenge, expiresIn: MFA_SETTINGS.challengeSeconds };
+}
+
+/**
+ * This function finds who an MFA challenge was issued to, without counting an attempt against it
+ * @param challenge the challenge ID returned by /authenticate
+ * @returns the user_id of the user and the type of sign in the challenge completes, or undefined
+ * if the challenge does not exist or has expired
+ */
+export async function findMfaChallenge(
+  challenge: string
+): Promise<{ userId: string; signIn: AuditEventType } | undefined> {
+  const record = await recordStore.get<MfaChallenge>(challengeKey(challenge));
+  return record === undefined ? undefined : { userId: record.user_id, signIn: record.sign_in };
+}
+
+/**
+ * This function finishes signing in a user with MFA enabled. Each challenge allows a limited
+ * number of attempts, and can only be completed once.
+ * @param table the table to read from/write to in DynamoDB
+ * @param challenge the challenge ID returned by /authenticate
+ * @param code a code from the user's app, or one of their recovery codes
+ * @returns the user_id of the user
+ */
+export async function completeMfaChallenge(
+  table: string,
+  challenge: string,
+  code: string
+): Promise<string> {
+  const key = challengeKey(challenge);
+  const record = await recordStore.get<MfaChallenge>(key);
+  if (record === undefined) {
+    throw new ErrorWithStatus("Invalid or expired MFA challenge", 401, "INVALID_MFA_CHALLENGE");
+  }
+
+  // Keep the challenge's original expiry, rather than extending it on every attempt
+  const attempts = await recordStore.increment(key, "attempts", new Date(record.expires));
+  if (attempts > MFA_SETTINGS.maxChallengeAttempts) {
+    await recordStore.delete(key);
+    throw new ErrorWithStatus(
+      "Too many incorrect MFA codes. Please sign in again.",
+      401,
+      "INVALID_MFA_CHALLENGE"
+    );
+  }
+
+  const user = await getUser(table, record.user_id);
+  if (!(await verifyMfaCode(table, user, code))) {
+    throw new ErrorWithStatus("Invalid MFA Code", 401, "INVALID_MFA_CODE");
+  }
+
+  await recordStore.delete(key);
+  return record.user_id;
+}
+
+// Accepts a TOTP code that has not been used before, or consumes an unused recovery code. Both
+// are written on the condition that nothing else has used a code since the user was read, so that
+// concurrent requests cannot both use the same code.
+async function verifyMfaCode(table: string, user: UserItem, code: string): Promise<boolean> {
+  const step = user.mfa_secret ? verifyTotp(user.mfa_secret, code) : undefined;
+  if (step !== undefined) {
+    // Each code can only be used once, even within its time step
+    if (step <= (user.mfa_last_step ?? -1)) {
+      return false;
+    }
+    return await userStore.editUserIf(
+      table,
+      user.user_id,
+      { "mfa_last_step": step },
+      { "mfa_last_step": user.mfa_last_step }
+    );
+  }
+
+  const recoveryCodes = user.mfa_recovery_codes ?? [];
+  for (const [index, hash] of recoveryCodes.entries()) {
+    if (await bcrypt.compare(code.trim().toLowerCase(), hash)) {
+      const consumed = await userStore.editUserIf(
+        table,
+        user.user_id,
+        { "mfa_recovery_codes": recoveryCodes.filter((_, i) => i !== index) },
+        { "mfa_recovery_codes": user.mfa_recovery_codes }
+      );
+      if (consumed) {
+        logger.info("MFA recovery code used", { userId: user.user_id });
+      }
+      return consumed;
+    }
+  }
+
+  return false;
+}
+
+async function getUser(table: string, userId: string): Promise<UserItem> {
+  const user = await userStore.getUser(table, userId);
+  if (user === undefined) {
+    throw new ErrorWithStatus("User Id does not exist", 400, "USER_NOT_FOUND");
+  }
+  return user;
+}
+
+function challengeKey(challenge: string): string {
+  return `mfa-challenge#${challenge}`;
+}
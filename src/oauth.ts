@@ -0,0 +1,54 @@
+import { OAUTH_PROVIDERS, PASSWORD_PROVIDER } from "./constants";
+import { decodeJwtHeader, verifyJwt } from "./jwt";
+import { getJwksKey } from "./jwks";
+import { ErrorWithStatus } from "./types/errorWithStatus";
+
+// The identity a provider has vouched for in a verified ID token
+export interface VerifiedIdentity {
+  email: string;
+  // The user's ID at the provider
+  subject: string;
+  // The user's display name, if the provider included one
+  name?: string;
+}
+
+/**
+ * This function verifies an OpenID Connect ID token against the provider's configuration in
+ * constants.ts, checking its signature, issuer, audience and expiry
+ * @param provider the name of the provider, e.g. "google"
+ * @param idToken the ID token the client received from the provider
+ * @returns the identity from the token's claims, throws a 401 error if the token is invalid
+ */
+export async function verifyIdToken(provider: string, idToken: string): Promise<VerifiedIdentity> {
+  const config = Object.hasOwn(OAUTH_PROVIDERS, provider) ? OAUTH_PROVIDERS[provider] : undefined;
+  if (config === undefined || provider === PASSWORD_PROVIDER) {
+    throw new ErrorWithStatus(`Unsupported provider '${provider}'`, 400, "UNSUPPORTED_PROVIDER");
+  }
+  if (config.audience === undefined) {
+    throw new ErrorWithStatus(
+      `Provider '${provider}' has not been configured`,
+      500,
+      "CONFIGURATION_ERROR"
+    );
+  }
+
+  const { kid } = decodeJwtHeader(idToken);
+  const claims = verifyJwt(idToken, {
+    publicKey: await getJwksKey(config.jwks, kid),
+    issuer: config.issuers,
+    audience: config.audience,
+    clockToleranceSeconds: 30,
+  });
+
+  // Providers that report whether the email is verified may send it as a string
+  const emailVerified = claims.email_verified !== false && claims.email_verified !== "false";
+  if (typeof claims.sub !== "string" || typeof claims.email !== "string" || !emailVerified) {
+    throw new ErrorWithStatus("ID token does not contain a verified email", 401, "INVALID_TOKEN");
+  }
+
+  return {
+    email: claims.email,
+    subject: claims.sub,
+    name: typeof claims.name === "string" ? claims.name : undefined,
+  };
+}
@@ -0,0 +1,143 @@
+import { AuthMethod } from "./authorization";
+import { Route } from "./types/route";
+import { JsonSchema } from "./types/schema";
+
+// The statuses every endpoint can return, so they are not repeated in every endpoint's schema
+const COMMON_ERRORS: { [status: number]: string } = {
+  400: "Bad inputs. See the error code and details for why",
+  500: "Internal server error",
+};
+
+// The statuses every protected endpoint can return
+const AUTH_ERRORS: { [status: number]: string } = {
+  401: "Missing or invalid credentials",
+  403: "The credentials cannot act on this user",
+};
+
+// The security schemes that each authentication method is documented as
+const SECURITY_SCHEMES: { [method in AuthMethod]: string[] } = {
+  bearer: ["bearer"],
+  apiKey: ["apiKey"],
+  admin: ["adminApiKey", "adminBearer"],
+};
+
+// The body of every error response. See ErrorEnvelope in types/errorWithStatus.ts.
+const ERROR_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["code", "message", "requestId"],
+  properties: {
+    code: { type: "string", description: "A stable, machine-readable error code" },
+    message: { type: "string", description: "A human-readable description of the error" },
+    details: { description: "Optional structured information about the error" },
+    requestId: { type: "string", description: "Identifies the request in the logs" },
+  },
+};
+
+/**
+ * This function generates an OpenAPI 3.1 document describing every route, from the schemas the
+ * routes are validated against
+ * @param routes the route table
+ * @returns the OpenAPI document
+ */
+export function buildOpenApiDocument(routes: Route[]): object {
+  const paths: { [path: string]: { [method: string]: object } } = {};
+
+  routes.forEach((route) => {
+    const path = `/user-data/${route.path}`;
+    paths[path] = { ...paths[path], [route.method.toLowerCase()]: buildOperation(route) };
+  });
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "JASSS User-Data API",
+      version: "1.0.0",
+      description: "Registers, authenticates and stores data for users.",
+    },
+    paths,
+    components: {
+      schemas: { Error: ERROR_SCHEMA },
+      securitySchemes: {
+        bearer: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+        apiKey: { type: "apiKey", in: "header", name: "x-api-key" },
+        adminApiKey: {
+          type: "apiKey",
+          in: "header",
+          name: "x-api-key",
+          description: "An admin API key",
+        },
+        adminBearer: {
+          type: "http",
+          scheme: "bearer",
+          bearerFormat: "JWT",
+          description: "A bearer token with the admin role",
+        },
+      },
+    },
+  };
+}
+
+/**
+ * This function generates the OpenAPI operation for a route
+ * @param route the route
+ * @returns the OpenAPI operation object
+ */
+function buildOperation(route: Route): object {
+  const { schema } = route;
+  const operation: { [key: string]: unknown } = {
+    summary: schema.summary,
+    description: schema.description,
+  };
+
+  const parameters: object[] = [];
+  for (const [, name] of route.path.matchAll(/{(\w+)}/g)) {
+    parameters.push({ name, in: "path", required: true, schema: { type: "string" } });
+  }
+  Object.entries(schema.query?.properties ?? {}).forEach(([name, property]) => {
+    const required = schema.query?.required?.includes(name) ?? false;
+    parameters.push({
+      name,
+      in: "query",
+      required,
+      description: property.description,
+      schema: property,
+    });
+  });
+  if (parameters.length > 0) {
+    operation.parameters = parameters;
+  }
+
+  if (schema.body !== undefined) {
+    operation.requestBody = {
+      required: true,
+      content: { "application/json": { schema: schema.body } },
+    };
+  }
+
+  const responses: { [status: string]: object } = {};
+  const { status = 200, description, schema: responseSchema } = schema.response;
+  responses[status] = { description };
+  if (responseSchema !== undefined) {
+    responses[status] = {
+      description,
+      content: { "application/json": { schema: responseSchema } },
+    };
+  }
+
+  let errors = { ...COMMON_ERRORS, ...schema.errors };
+  if ("auth" in route) {
+    operation.security = route.auth
+      .flatMap((method) => SECURITY_SCHEMES[method])
+      .map((scheme) => ({ [scheme]: [] }));
+    errors = { ...COMMON_ERRORS, ...AUTH_ERRORS, ...schema.errors };
+  }
+  Object.entries(errors).forEach(([errorStatus, errorDescription]) => {
+    responses[errorStatus] = {
+      description: errorDescription,
+      content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+    };
+  });
+  operation.responses = responses;
+
+  return operation;
+}
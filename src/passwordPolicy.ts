@@ -0,0 +1,103 @@
+import bcrypt from "bcryptjs";
+import { PASSWORD_POLICY } from "./constants";
+import { COMMON_PASSWORDS } from "./data/commonPasswords";
+import { ErrorWithStatus } from "./types/errorWithStatus";
+import { UserItem } from "./types/userStore";
+
+const commonPasswords = new Set(COMMON_PASSWORDS);
+
+// A policy rule that a password did not meet. `rule` is stable, so clients can match on it.
+export interface PasswordRuleFailure {
+  rule: string;
+  message: string;
+}
+
+/**
+ * This function checks a new password against the password policy in constants.ts. It is shared
+ * by registration, password changes and password resets.
+ * @param password the new password
+ * @param previousHashes hashes of the user's current and previous passwords, from passwordHistory
+ * @returns nothing, throws a 400 error listing every rule that failed under `details.failedRules`
+ */
+export async function enforcePasswordPolicy(password: unknown, previousHashes: string[] = []) {
+  if (typeof password !== "string") {
+    throw new ErrorWithStatus("Password must be a string", 400, "PASSWORD_POLICY");
+  }
+
+  const failedRules = checkPasswordRules(password);
+
+  // Only hash-compare once the cheaper rules pass, as each comparison is deliberately slow
+  if (failedRules.length === 0 && PASSWORD_POLICY.historySize > 0) {
+    for (const hash of previousHashes) {
+      if (await bcrypt.compare(password, hash)) {
+        failedRules.push({
+          rule: "reused",
+          message: `Password cannot be one of your last ${PASSWORD_POLICY.historySize} passwords`,
+        });
+        break;
+      }
+    }
+  }
+
+  if (failedRules.length > 0) {
+    throw new ErrorWithStatus(
+      "Password does not meet the password policy",
+      400,
+      "PASSWORD_POLICY",
+      {
+        failedRules,
+      }
+    );
+  }
+}
+
+/**
+ * This function returns the hashes of a user's current and previous passwords, newest first, up to
+ * the configured history size. Store it as `password_history` when the password changes, and pass
+ * it to enforcePasswordPolicy to stop the new password reusing one of them.
+ * @param user the user item
+ * @returns the password hashes, newest first
+ */
+export function passwordHistory(
+  user: Pick<UserItem, "password_hash" | "password_history">
+): string[] {
+  const previous = Array.isArray(user.password_history) ? user.password_history : [];
+  const hashes = user.password_hash ? [user.password_hash, ...previous] : previous;
+  return hashes.slice(0, PASSWORD_POLICY.historySize);
+}
+
+function checkPasswordRules(password: string): PasswordRuleFailure[] {
+  const policy = PASSWORD_POLICY;
+  const failedRules: PasswordRuleFailure[] = [];
+
+  if (password.length < policy.minLength) {
+    failedRules.push({
+      rule: "minLength",
+      message: `Password must be at least ${policy.minLength} characters long`,
+    });
+  }
+  // bcrypt ignores everything past 72 bytes
+  if (Buffer.byteLength(password) > policy.maxBytes) {
+    failedRules.push({
+      rule: "maxLength",
+      message: `Password must be at most ${policy.maxBytes} bytes long`,
+    });
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    failedRules.push({ rule: "lowercase", message: "Password must contain a lowercase letter" });
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    failedRules.push({ rule: "uppercase", message: "Password must contain an uppercase letter" });
+  }
+  if (policy.requireDigit && !/[0-9]/.test(password)) {
+    failedRules.push({ rule: "digit", message: "Password must contain a number" });
+  }
+  if (policy.requireSymbol && !/[^a-zA-Z0-9]/.test(password)) {
+    failedRules.push({ rule: "symbol", message: "Password must contain a symbol" });
+  }
+  if (policy.rejectCommon && commonPasswords.has(password.toLowerCase())) {
+    failedRules.push({ rule: "common", message: "Password is too common" });
+  }
+
+  return failedRules;
+}
@@ -0,0 +1,194 @@
+import bcrypt from "bcryptjs";
+import * as EmailValidator from "email-validator";
+import { randomBytes, randomInt } from "crypto";
+import { PASSWORDLESS_SETTINGS, recordStore } from "./constants";
+import {
+  addUserWithGeneratedUsername,
+  assertNotDisabled,
+  databaseEditUser,
+  findUserByEmail,
+  sendEmail,
+  validateTableName,
+} from "./dynamo";
+import { clearLoginFailures } from "./loginThrottle";
+import { ErrorWithStatus } from "./types/errorWithStatus";
+import { logger } from ".";
+
+// Passwordless sign in lets users sign in with a one-time code, or a magic link holding one, that
+// is emailed to them. Codes are stored hashed until they expire, and each allows a limited number
+// of attempts. Only the latest code requested for an email can be used.
+
+// How the code is delivered. Links hold a longer code, as nobody has to type it.
+export type PasswordlessMethod = "code" | "link";
+
+// A code that has been sent, hashed. expires is in milliseconds since the epoch.
+interface SignInCode {
+  code_hash: string;
+  attempts: number;
+  expires: number;
+}
+
+/**
+ * This function emails a user a one-time code, or a magic link, to sign in with. Requests are
+ * limited per email, so that this cannot be used to flood someone's inbox.
+ * @param table the table to read from in DynamoDB
+ * @param email the email of the user
+ * @param method whether to email a code or a magic link
+ * @returns the code (for debugging purposes), throws a 400 error if no user has the email and
+ * users are not registered automatically
+ */
+export async function startPasswordlessSignIn(
+  table: string,
+  email: string,
+  method: PasswordlessMethod
+): Promise<string> {
+  // (1) Validate Table name and email
+  validateTableName(table);
+  if (!EmailValidator.validate(email)) {
+    throw new ErrorWithStatus("Invalid Email", 400, "INVALID_EMAIL");
+  }
+  if (method === "link" && PASSWORDLESS_SETTINGS.linkUrl === undefined) {
+    throw new ErrorWithStatus("Magic links have not been configured", 500, "CONFIGURATION_ERROR");
+  }
+
+  // (2) Rate limit requests, whether or not the email has an account
+  const windowEnd = new Date(Date.now() + PASSWORDLESS_SETTINGS.requestWindowSeconds * 1000);
+  const requests = await recordStore.increment(`passwordless-request#${email}`, "count", windowEnd);
+  if (requests > PASSWORDLESS_SETTINGS.maxRequests) {
+    const error = new ErrorWithStatus(
+      "Too many sign in codes have been requested. Please try again later.",
+      429,
+      "RATE_LIMITED"
+    );
+    error.headers = { "Retry-After": `${PASSWORDLESS_SETTINGS.requestWindowSeconds}` };
+    throw error;
+  }
+
+  // (3) Get matching user, who may be registered when they sign in
+  const item = await findUserByEmail(table, email);
+  if (item === undefined && !PASSWORDLESS_SETTINGS.autoRegister) {
+    throw new ErrorWithStatus("Email does not exist", 400, "EMAIL_NOT_FOUND");
+  }
+  if (item !== undefined) {
+    assertNotDisabled(item);
+  }
+
+  // (4) Generate the code, replacing any previous one
+  const code = method === "link" ? randomBytes(32).toString("hex") : generateNumericCode();
+  const expiresAt = new Date(Date.now() + PASSWORDLESS_SETTINGS.codeMinutes * 60 * 1000);
+  await recordStore.put(
+    codeKey(email),
+    { code_hash: await bcrypt.hash(code, 10), attempts: 0, expires: expiresAt.getTime() },
+    expiresAt
+  );
+
+  // (5) Send email with the code or link
+  const variables = { expiresInMinutes: PASSWORDLESS_SETTINGS.codeMinutes };
+  if (method === "link") {
+    await sendEmail(
+      email,
+      "magicLink",
+      item?.locale,
+      { ...variables, link: magicLink(email, code) },
+      expiresAt
+    );
+  } else {
+    await sendEmail(email, "signInCode", item?.locale, { ...variables, code }, expiresAt);
+  }
+
+  return code;
+}
+
+/**
+ * This function signs in a user with the code emailed by startPasswordlessSignIn. Each code can
+ * only be used once, and allows a limited number of attempts. Users who do not have an account
+ * yet are registered if PASSWORDLESS_SETTINGS.autoRegister is set. Signing in proves the user owns
+ * the email, so it is marked as verified.
+ * @param table the table to read from/write to in DynamoDB
+ * @param email the email of the user
+ * @param code the code, from the email or the magic link
+ * @param username the username to give the user if they are registered, which is derived from
+ * their email if left out, invalid or taken
+ * @returns the user_id of the user, throws a 401 error if the code is invalid or expired
+ */
+export async function completePasswordlessSignIn(
+  table: string,
+  email: string,
+  code: string,
+  username?: string
+): Promise<string> {
+  // (1) Validate Table name
+  validateTableName(table);
+
+  // (2) Check the code, counting the attempt against it
+  const key = codeKey(email);
+  const record = await recordStore.get<SignInCode>(key);
+  if (record === undefined) {
+    throw new ErrorWithStatus("Invalid or expired sign in code", 401, "INVALID_SIGN_IN_CODE");
+  }
+
+  // Keep the code's original expiry, rather than extending it on every attempt
+  const attempts = await recordStore.increment(key, "attempts", new Date(record.expires));
+  if (attempts > PASSWORDLESS_SETTINGS.maxAttempts) {
+    await recordStore.delete(key);
+    throw new ErrorWithStatus(
+      "Too many incorrect sign in codes. Please request a new one.",
+      401,
+      "INVALID_SIGN_IN_CODE"
+    );
+  }
+  if (!(await bcrypt.compare(code.trim(), record.code_hash))) {
+    throw new ErrorWithStatus("Invalid or expired sign in code", 401, "INVALID_SIGN_IN_CODE");
+  }
+  await recordStore.delete(key);
+
+  // (3) Sign in the user, registering them if needed
+  const item = await findUserByEmail(table, email);
+  if (item === undefined) {
+    if (!PASSWORDLESS_SETTINGS.autoRegister) {
+      throw new ErrorWithStatus("Email does not exist", 400, "EMAIL_NOT_FOUND");
+    }
+    const userId = await addUserWithGeneratedUsername(
+      table,
+      username ?? email.split("@")[0],
+      email
+    );
+    await databaseEditUser(table, userId, { "email_verified": true });
+    logger.info("Registered user through passwordless sign in", { userId });
+    return userId;
+  }
+
+  assertNotDisabled(item);
+  if (item.email_verified === false) {
+    await databaseEditUser(table, item.user_id, { "email_verified": true });
+  }
+
+  // Proving ownership of the email lifts any lockout from failed password sign ins
+  await clearLoginFailures(email);
+
+  return item.user_id as string;
+}
+
+/**
+ * This function builds the magic link for a code, by adding the email and code to the query string
+ * of PASSWORDLESS_SETTINGS.linkUrl
+ * @param email the email of the user
+ * @param code the code
+ * @returns the link
+ */
+function magicLink(email: string, code: string): string {
+  const url = new URL(PASSWORDLESS_SETTINGS.linkUrl!);
+  url.searchParams.set("email", email);
+  url.searchParams.set("code", code);
+  return url.toString();
+}
+
+// Codes that users type are digits only, and may start with zeros
+function generateNumericCode(): string {
+  const { codeLength } = PASSWORDLESS_SETTINGS;
+  return String(randomInt(0, 10 ** codeLength)).padStart(codeLength, "0");
+}
+
+function codeKey(email: string): string {
+  return `passwordless#${email}`;
+}
@@ -0,0 +1,117 @@
+import { LambdaFunctionURLEvent } from "aws-lambda";
+import { CORS_SETTINGS } from "./constants";
+import { getHeader } from "./authorization";
+import { Route } from "./types/route";
+
+// A route that matched a request, and the values of its path parameters
+export interface RouteMatch {
+  route: Route;
+  params: { [name: string]: string };
+}
+
+// The result of looking up a request in the route table
+export interface RouteLookup {
+  // The route for the request's path and method, if there is one
+  match?: RouteMatch;
+  // Every method the request's path can be called with. Empty if the path is unknown.
+  allowedMethods: string[];
+}
+
+// Compiled path patterns, so that each route's regex is only built once
+const patterns = new Map<string, { regex: RegExp; names: string[] }>();
+
+/**
+ * This function finds the route for a request. Routes are tried in order, so a route with a
+ * literal segment should be listed before a route with a parameter in the same place.
+ * @param routes the route table
+ * @param method the HTTP method of the request
+ * @param path the path of the request, optionally prefixed with the stage
+ * @returns the matching route, and the methods the path allows
+ */
+export function findRoute(routes: Route[], method: string, path: string): RouteLookup {
+  const lookup: RouteLookup = { allowedMethods: [] };
+
+  for (const route of routes) {
+    const params = matchPath(route.path, path);
+    if (params === undefined) {
+      continue;
+    }
+
+    if (!lookup.allowedMethods.includes(route.method)) {
+      lookup.allowedMethods.push(route.method);
+    }
+    if (lookup.match === undefined && route.method === method.toUpperCase()) {
+      lookup.match = { route, params };
+    }
+  }
+
+  return lookup;
+}
+
+/**
+ * This function gets the CORS headers for a response, if the request came from an allowed origin
+ * @param event all of the info provided by Lambda about the event
+ * @param allowedMethods the methods to allow in a preflight response. Omitted for other responses.
+ * @returns the headers to add to the response
+ */
+export function corsHeaders(
+  event: LambdaFunctionURLEvent,
+  allowedMethods?: string[]
+): { [header: string]: string } {
+  const origin = getHeader(event, "origin");
+  const { allowedOrigins, allowedHeaders, exposedHeaders, maxAgeSeconds } = CORS_SETTINGS;
+  const anyOrigin = allowedOrigins.includes("*");
+  if (origin === undefined || (!anyOrigin && !allowedOrigins.includes(origin))) {
+    return {};
+  }
+
+  const cors: { [header: string]: string } = {
+    "Access-Control-Allow-Origin": anyOrigin ? "*" : origin,
+    "Access-Control-Expose-Headers": exposedHeaders.join(", "),
+  };
+  if (!anyOrigin) {
+    // Caches must not serve one origin's response to another
+    cors["Vary"] = "Origin";
+  }
+  if (allowedMethods !== undefined) {
+    cors["Access-Control-Allow-Methods"] = allowedMethods.join(", ");
+    cors["Access-Control-Allow-Headers"] = allowedHeaders.join(", ");
+    cors["Access-Control-Max-Age"] = `${maxAgeSeconds}`;
+  }
+  return cors;
+}
+
+/**
+ * This function matches a request path against a route path
+ * @param routePath the route path, e.g. "users/{id}"
+ * @param path the path of the request
+ * @returns the values of the path parameters, or undefined if the path does not match
+ */
+function matchPath(routePath: string, path: string): { [name: string]: string } | undefined {
+  let pattern = patterns.get(routePath);
+  if (pattern === undefined) {
+    const names: string[] = [];
+    const source = routePath.replace(/{(\w+)}/g, (_, name: string) => {
+      names.push(name);
+      return "([^/]+)";
+    });
+    pattern = { regex: new RegExp(`^(?:/(?:dev|staging|prod))?/user-data/${source}$`), names };
+    patterns.set(routePath, pattern);
+  }
+
+  const result = pattern.regex.exec(path);
+  if (result === null) {
+    return undefined;
+  }
+
+  const params: { [name: string]: string } = {};
+  try {
+    pattern.names.forEach((name, i) => {
+      params[name] = decodeURIComponent(result[i + 1]);
+    });
+  } catch (err) {
+    // Malformed percent-encoding can never match a route
+    return undefined;
+  }
+  return params;
+}
@@ -0,0 +1,35 @@
+import { ErrorWithStatus } from "../types/errorWithStatus";
+
+// Cursors are opaque to clients. They hold the key of the last item looked at, so that the next
+// page starts after it.
+
+/**
+ * This function encodes the key of the last item looked at as a cursor
+ * @param key the key of the item, e.g. { user_id: "..." }
+ * @returns the cursor
+ */
+export function encodeCursor(key: { [attribute: string]: string }): string {
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+/**
+ * This function decodes a cursor made by encodeCursor
+ * @param cursor the cursor provided by the request
+ * @param attributes the attributes the key must have
+ * @returns the key of the item to start after, throws a 400 error if the cursor is invalid
+ */
+export function decodeCursor(
+  cursor: string,
+  attributes: string[]
+): { [attribute: string]: string } {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (attributes.every((attribute) => typeof key?.[attribute] === "string")) {
+      // Leave out anything else, so that clients cannot choose which attributes are read
+      return Object.fromEntries(attributes.map((attribute) => [attribute, key[attribute]]));
+    }
+  } catch (e) {
+    // Reported below
+  }
+  throw new ErrorWithStatus("Invalid cursor", 400, "INVALID_REQUEST");
+}
@@ -0,0 +1,93 @@
+import { randomUUID } from "crypto";
+import { DynamoDBDocumentClient, PutCommand, QueryCommand } from "@aws-sdk/lib-dynamodb";
+import { AuditEvent, AuditPage, AuditQuery, AuditStore } from "../types/auditStore";
+import { decodeCursor, encodeCursor } from "./cursor";
+
+// An event as it is stored in the table
+interface AuditItem {
+  user_id: string;
+  event_key: string;
+  type: AuditEvent["type"];
+  outcome: AuditEvent["outcome"];
+  occurred_at: string;
+  source_ip?: string;
+  user_agent?: string;
+  error_code?: string;
+  request_id?: string;
+  details?: AuditEvent["details"];
+  expires_at: number;
+}
+
+/**
+ * AuditStore backed by a DynamoDB table keyed on `user_id`, with the sort key `event_key` starting
+ * with the event's timestamp, so that a user's events can be queried by time range. TTL is enabled
+ * on `expires_at`.
+ */
+export class DynamoAuditStore implements AuditStore {
+  constructor(
+    private docClient: DynamoDBDocumentClient,
+    private tableName: string
+  ) {}
+
+  async record(event: AuditEvent, expiresAt: Date) {
+    const command = new PutCommand({
+      TableName: this.tableName,
+      Item: {
+        user_id: event.userId,
+        // The ID keeps events recorded at the same time apart
+        event_key: `${event.timestamp}#${randomUUID()}`,
+        type: event.type,
+        outcome: event.outcome,
+        occurred_at: event.timestamp,
+        source_ip: event.sourceIp,
+        user_agent: event.userAgent,
+        error_code: event.errorCode,
+        request_id: event.requestId,
+        details: event.details,
+        expires_at: Math.floor(expiresAt.getTime() / 1000),
+      },
+    });
+    await this.docClient.send(command);
+  }
+
+  async query(userId: string, query: AuditQuery): Promise<AuditPage> {
+    const command = new QueryCommand({
+      TableName: this.tableName,
+      // "~" sorts after "#", so events at exactly `to` are included
+      KeyConditionExpression: "user_id = :user_id AND event_key BETWEEN :from AND :to",
+      ExpressionAttributeValues: {
+        ":user_id": userId,
+        ":from": query.from.toISOString(),
+        ":to": `${query.to.toISOString()}~`,
+      },
+      ScanIndexForward: false,
+      Limit: query.limit,
+      ExclusiveStartKey:
+        query.cursor === undefined
+          ? undefined
+          : decodeCursor(query.cursor, ["user_id", "event_key"]),
+    });
+
+    const response = await this.docClient.send(command);
+    const lastKey = response.LastEvaluatedKey;
+    return {
+      events: ((response.Items ?? []) as AuditItem[]).map(toEvent),
+      cursor: lastKey === undefined ? undefined : encodeCursor(lastKey),
+    };
+  }
+}
+
+// Items may be read after they expire, until DynamoDB gets around to deleting them
+function toEvent(item: AuditItem): AuditEvent {
+  return {
+    userId: item.user_id,
+    type: item.type,
+    outcome: item.outcome,
+    timestamp: item.occurred_at,
+    sourceIp: item.source_ip,
+    userAgent: item.user_agent,
+    errorCode: item.error_code,
+    requestId: item.request_id,
+    details: item.details,
+  };
+}
@@ -0,0 +1,89 @@
+import {
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  PutCommand,
+  ScanCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { MailQueue, QueuedMail } from "../types/mailQueue";
+import { MailMessage } from "../types/mailTransport";
+
+/**
+ * MailQueue backed by a DynamoDB table keyed on `mail_id`, with TTL enabled on `expires_at`. The
+ * queue only holds emails that failed to send, so it is scanned rather than indexed.
+ */
+export class DynamoMailQueue implements MailQueue {
+  constructor(
+    private docClient: DynamoDBDocumentClient,
+    private table: string
+  ) {}
+
+  async put(mail: QueuedMail, expiresAt: Date) {
+    const command = new PutCommand({
+      TableName: this.table,
+      Item: {
+        mail_id: mail.id,
+        message: mail.message,
+        queued_at: mail.queuedAt.toISOString(),
+        attempts: mail.attempts,
+        next_attempt_at: mail.nextAttemptAt.toISOString(),
+        last_error: mail.lastError,
+        content_expires_at: mail.expiresAt?.toISOString(),
+        expires_at: toEpochSeconds(expiresAt),
+      },
+    });
+    await this.docClient.send(command);
+  }
+
+  async listDue(now: Date, limit: number) {
+    const mails: QueuedMail[] = [];
+    let startKey: Record<string, unknown> | undefined;
+
+    // Filters apply after each page is read, so keep reading until enough are found
+    do {
+      const command = new ScanCommand({
+        TableName: this.table,
+        FilterExpression: "next_attempt_at <= :now AND expires_at > :now_seconds",
+        ExpressionAttributeValues: {
+          ":now": now.toISOString(),
+          ":now_seconds": toEpochSeconds(now),
+        },
+        ExclusiveStartKey: startKey,
+      });
+      const response = await this.docClient.send(command);
+      mails.push(...(response.Items ?? []).map(toQueuedMail));
+      startKey = response.LastEvaluatedKey;
+    } while (startKey !== undefined && mails.length < limit);
+
+    return mails
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit);
+  }
+
+  async remove(id: string) {
+    const command = new DeleteCommand({
+      TableName: this.table,
+      Key: { mail_id: id },
+    });
+    await this.docClient.send(command);
+  }
+}
+
+function toQueuedMail(item: Record<string, unknown>): QueuedMail {
+  return {
+    id: item.mail_id as string,
+    message: item.message as MailMessage,
+    queuedAt: new Date(item.queued_at as string),
+    attempts: item.attempts as number,
+    nextAttemptAt: new Date(item.next_attempt_at as string),
+    lastError: item.last_error as string | undefined,
+    expiresAt:
+      item.content_expires_at === undefined
+        ? undefined
+        : new Date(item.content_expires_at as string),
+  };
+}
+
+// DynamoDB TTL attributes must be a number of seconds since the epoch
+function toEpochSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
@@ -0,0 +1,119 @@
+import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import {
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { RecordStore, RecordValues } from "../types/recordStore";
+
+/**
+ * RecordStore backed by a DynamoDB table keyed on `record_key`, with TTL enabled on `expires_at`.
+ * DynamoDB can take a while to delete expired items, so expiry is also checked on every read.
+ */
+export class DynamoRecordStore implements RecordStore {
+  constructor(
+    private docClient: DynamoDBDocumentClient,
+    private table: string
+  ) {}
+
+  async get<T = RecordValues>(key: string) {
+    const command = new GetCommand({
+      TableName: this.table,
+      Key: { record_key: key },
+      ConsistentRead: true,
+    });
+    const response = await this.docClient.send(command);
+    if (response.Item === undefined || response.Item.expires_at <= toEpochSeconds(new Date())) {
+      return undefined;
+    }
+
+    const values = { ...response.Item };
+    delete values.record_key;
+    delete values.expires_at;
+    return values as T;
+  }
+
+  async put(key: string, values: RecordValues, expiresAt: Date) {
+    const command = new PutCommand({
+      TableName: this.table,
+      Item: { ...values, record_key: key, expires_at: toEpochSeconds(expiresAt) },
+    });
+    await this.docClient.send(command);
+  }
+
+  async update(key: string, values: RecordValues, expiresAt: Date) {
+    // Set the values in a single write, so that concurrent increments of other values are kept.
+    // Values are referred to by position, as their names may not be valid in expressions.
+    const entries = Object.entries(values);
+    const assignments = entries.map((_, i) => `#field${i} = :value${i}`);
+    const command = new UpdateCommand({
+      TableName: this.table,
+      Key: { record_key: key },
+      UpdateExpression: `SET ${[...assignments, "expires_at = :expires_at"].join(", ")}`,
+      ConditionExpression: "attribute_not_exists(record_key) OR expires_at > :now",
+      // DynamoDB rejects empty attribute names, when only the expiry is being set
+      ExpressionAttributeNames:
+        entries.length > 0
+          ? Object.fromEntries(entries.map(([field], i) => [`#field${i}`, field]))
+          : undefined,
+      ExpressionAttributeValues: {
+        ...Object.fromEntries(entries.map(([, value], i) => [`:value${i}`, value])),
+        ":expires_at": toEpochSeconds(expiresAt),
+        ":now": toEpochSeconds(new Date()),
+      },
+    });
+
+    try {
+      await this.docClient.send(command);
+    } catch (e) {
+      if (!(e instanceof ConditionalCheckFailedException)) {
+        throw e;
+      }
+      // Expired records start again, without the values they had before
+      await this.put(key, values, expiresAt);
+    }
+  }
+
+  async increment(key: string, field: string, expiresAt: Date) {
+    // Only add to records that are still live, otherwise start again from 1
+    const command = new UpdateCommand({
+      TableName: this.table,
+      Key: { record_key: key },
+      UpdateExpression: "ADD #field :one SET expires_at = :expires_at",
+      ConditionExpression: "attribute_not_exists(record_key) OR expires_at > :now",
+      ExpressionAttributeNames: { "#field": field },
+      ExpressionAttributeValues: {
+        ":one": 1,
+        ":expires_at": toEpochSeconds(expiresAt),
+        ":now": toEpochSeconds(new Date()),
+      },
+      ReturnValues: "UPDATED_NEW",
+    });
+
+    try {
+      const response = await this.docClient.send(command);
+      return response.Attributes?.[field] as number;
+    } catch (e) {
+      if (!(e instanceof ConditionalCheckFailedException)) {
+        throw e;
+      }
+      await this.put(key, { [field]: 1 }, expiresAt);
+      return 1;
+    }
+  }
+
+  async delete(key: string) {
+    const command = new DeleteCommand({
+      TableName: this.table,
+      Key: { record_key: key },
+    });
+    await this.docClient.send(command);
+  }
+}
+
+// DynamoDB TTL attributes must be a number of seconds since the epoch
+function toEpochSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
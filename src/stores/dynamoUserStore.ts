@@ -0,0 +1,388 @@
+import {
+  ConditionalCheckFailedException,
+  TransactionCanceledException,
+} from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  QueryCommand,
+  ScanCommand,
+  TransactWriteCommand,
+  TransactWriteCommandInput,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { ErrorWithStatus } from "../types/errorWithStatus";
+import { UserItem, UserListQuery, UserPage, UserStore } from "../types/userStore";
+import { decodeCursor, encodeCursor } from "./cursor";
+
+/**
+ * UserStore backed by a DynamoDB table, with a global secondary index on email. Usernames are
+ * reserved in a second table keyed on the lowercased username, which is written in the same
+ * transaction as the user.
+ */
+export class DynamoUserStore implements UserStore {
+  constructor(
+    private docClient: DynamoDBDocumentClient,
+    private emailIndexName: string,
+    private usernameTable: string
+  ) {}
+
+  async addUser(table: string, item: UserItem) {
+    const command = new TransactWriteCommand({
+      TransactItems: [
+        {
+          Put: {
+            TableName: this.usernameTable,
+            Item: { username: item.username.toLowerCase(), user_id: item.user_id },
+            ConditionExpression: "attribute_not_exists(username)",
+          },
+        },
+        {
+          Put: {
+            TableName: table,
+            Item: item,
+          },
+        },
+      ],
+    });
+
+    try {
+      await this.docClient.send(command);
+    } catch (e) {
+      if (failedCondition(e, 0)) {
+        throw usernameTakenError(item.username);
+      }
+      throw e;
+    }
+  }
+
+  async changeUsername(table: string, userId: string, username: string) {
+    const user = await this.getUser(table, userId, ["username"]);
+    if (user === undefined) {
+      throw new ErrorWithStatus("User Id does not exist", 400, "USER_NOT_FOUND");
+    }
+
+    const newKey = username.toLowerCase();
+    const oldKey = typeof user.username === "string" ? user.username.toLowerCase() : undefined;
+
+    const transactItems: TransactWriteCommandInput["TransactItems"] = [
+      {
+        Put: {
+          TableName: this.usernameTable,
+          Item: { username: newKey, user_id: userId },
+          ConditionExpression: "attribute_not_exists(username) OR user_id = :user_id",
+          ExpressionAttributeValues: { ":user_id": userId },
+        },
+      },
+      {
+        Update: {
+          TableName: table,
+          Key: { user_id: userId },
+          UpdateExpression: "set username = :username",
+          ConditionExpression: "attribute_exists(user_id)",
+          ExpressionAttributeValues: { ":username": username },
+        },
+      },
+    ];
+    if (oldKey !== undefined && oldKey !== newKey) {
+      transactItems.push(this.releaseUsername(oldKey, userId));
+    }
+
+    const command = new TransactWriteCommand({ TransactItems: transactItems });
+
+    try {
+      await this.docClient.send(command);
+    } catch (e) {
+      if (failedCondition(e, 0)) {
+        throw usernameTakenError(username);
+      }
+      if (failedCondition(e, 1)) {
+        throw new ErrorWithStatus("User Id does not exist", 400, "USER_NOT_FOUND");
+      }
+      throw e;
+    }
+  }
+
+  async editUser(table: string, userId: string, values: { [key: string]: unknown }) {
+    const command = new UpdateCommand({
+      TableName: table,
+      Key: {
+        user_id: userId,
+      },
+      UpdateExpression: `set ${setExpression(values)}`,
+      ConditionExpression: "attribute_exists(user_id)",
+      ExpressionAttributeValues: expressionValues(values),
+    });
+
+    try {
+      await this.docClient.send(command);
+    } catch (e) {
+      throw new ErrorWithStatus("User Id does not exist", 400, "USER_NOT_FOUND");
+    }
+  }
+
+  async editUserIf(
+    table: string,
+    userId: string,
+    values: { [key: string]: unknown },
+    expected: { [key: string]: unknown }
+  ) {
+    // Expected values get their own placeholders, as the same attribute may also be set
+    const conditions = Object.entries(expected).map(([infoName, infoValue]) =>
+      infoValue === undefined
+        ? `attribute_not_exists(${infoName})`
+        : `${infoName} = :expected_${infoName}`
+    );
+    const expectedValues = Object.entries(expected)
+      .filter(([, infoValue]) => infoValue !== undefined)
+      .reduce(
+        (acc, [infoName, infoValue]) => ({ ...acc, [`:expected_${infoName}`]: infoValue }),
+        {}
+      );
+
+    const command = new UpdateCommand({
+      TableName: table,
+      Key: {
+        user_id: userId,
+      },
+      UpdateExpression: `set ${setExpression(values)}`,
+      ConditionExpression: ["attribute_exists(user_id)", ...conditions].join(" AND "),
+      ExpressionAttributeValues: { ...expressionValues(values), ...expectedValues },
+    });
+
+    try {
+      await this.docClient.send(command);
+      return true;
+    } catch (e) {
+      if (e instanceof ConditionalCheckFailedException) {
+        return false;
+      }
+      throw e;
+    }
+  }
+
+  async deleteUser(table: string, userId: string) {
+    const user = await this.getUser(table, userId, ["username"]);
+    if (user === undefined) {
+      throw new ErrorWithStatus("User Id does not exist", 400, "USER_NOT_FOUND");
+    }
+
+    const transactItems: TransactWriteCommandInput["TransactItems"] = [
+      {
+        Delete: {
+          TableName: table,
+          Key: {
+            user_id: userId,
+          },
+          ConditionExpression: "attribute_exists(user_id)",
+        },
+      },
+    ];
+    if (typeof user.username === "string") {
+      transactItems.push(this.releaseUsername(user.username.toLowerCase(), userId));
+    }
+
+    const command = new TransactWriteCommand({ TransactItems: transactItems });
+
+    try {
+      await this.docClient.send(command);
+    } catch (e) {
+      if (failedCondition(e, 0)) {
+        throw new ErrorWithStatus("User Id does not exist", 400, "USER_NOT_FOUND");
+      }
+      throw e;
+    }
+  }
+
+  async scheduleDeletion(
+    table: string,
+    userId: string,
+    purgeAt: Date,
+    values: { [key: string]: unknown }
+  ) {
+    const userValues = { ...values, purge_at: Math.floor(purgeAt.getTime() / 1000) };
+    await this.updateWithReservation(
+      table,
+      userId,
+      { UpdateExpression: `set ${setExpression(userValues)}`, Values: userValues },
+      {
+        UpdateExpression: "set purge_at = :purge_at, user_id = :user_id",
+        Values: { purge_at: userValues.purge_at },
+      }
+    );
+  }
+
+  async cancelDeletion(
+    table: string,
+    userId: string,
+    values: { [key: string]: unknown },
+    removed: string[] = []
+  ) {
+    let userExpression = `remove ${["purge_at", ...removed].join(", ")}`;
+    if (Object.keys(values).length > 0) {
+      userExpression += ` set ${setExpression(values)}`;
+    }
+    await this.updateWithReservation(
+      table,
+      userId,
+      { UpdateExpression: userExpression, Values: values },
+      { UpdateExpression: "remove purge_at set user_id = :user_id", Values: {} }
+    );
+  }
+
+  async getUser(table: string, userId: string, fields?: string[]) {
+    const command = new GetCommand({
+      TableName: table,
+      Key: {
+        user_id: userId,
+      },
+      ProjectionExpression: fields?.join(", "),
+    });
+    const response = await this.docClient.send(command);
+    return response.Item as UserItem | undefined;
+  }
+
+  async findUserByEmail(table: string, email: string) {
+    const command = new QueryCommand({
+      TableName: table,
+      IndexName: this.emailIndexName,
+      KeyConditionExpression: "email = :email",
+      ExpressionAttributeValues: {
+        ":email": email,
+      },
+      Limit: 1,
+    });
+
+    const response = await this.docClient.send(command);
+    return response.Items?.[0] as UserItem | undefined;
+  }
+
+  async listUsers(table: string, query: UserListQuery): Promise<UserPage> {
+    const conditions: string[] = [];
+    const names: { [name: string]: string } = {};
+    const values: { [value: string]: string } = {};
+    if (query.emailPrefix !== undefined) {
+      conditions.push("begins_with(#email, :email)");
+      names["#email"] = "email";
+      values[":email"] = query.emailPrefix;
+    }
+    if (query.usernamePrefix !== undefined) {
+      conditions.push("begins_with(#username, :username)");
+      names["#username"] = "username";
+      values[":username"] = query.usernamePrefix;
+    }
+
+    const command = new ScanCommand({
+      TableName: table,
+      Limit: query.limit,
+      ExclusiveStartKey:
+        query.cursor === undefined ? undefined : decodeCursor(query.cursor, ["user_id"]),
+      FilterExpression: conditions.length > 0 ? conditions.join(" AND ") : undefined,
+      ExpressionAttributeNames: conditions.length > 0 ? names : undefined,
+      ExpressionAttributeValues: conditions.length > 0 ? values : undefined,
+    });
+
+    const response = await this.docClient.send(command);
+    const lastKey = response.LastEvaluatedKey;
+    return {
+      users: (response.Items ?? []) as UserItem[],
+      cursor: lastKey === undefined ? undefined : encodeCursor(lastKey),
+    };
+  }
+
+  // Updates a user and their username reservation in one transaction, so that TTL deletes both at
+  // once. The reservation update must set user_id, as updating a missing reservation creates it.
+  private async updateWithReservation(
+    table: string,
+    userId: string,
+    userUpdate: { UpdateExpression: string; Values: { [key: string]: unknown } },
+    reservationUpdate: { UpdateExpression: string; Values: { [key: string]: unknown } }
+  ) {
+    const user = await this.getUser(table, userId, ["username"]);
+    if (user === undefined) {
+      throw new ErrorWithStatus("User Id does not exist", 400, "USER_NOT_FOUND");
+    }
+
+    const userValues = expressionValues(userUpdate.Values);
+    const transactItems: TransactWriteCommandInput["TransactItems"] = [
+      {
+        Update: {
+          TableName: table,
+          Key: { user_id: userId },
+          UpdateExpression: userUpdate.UpdateExpression,
+          ConditionExpression: "attribute_exists(user_id)",
+          // DynamoDB rejects empty maps of values
+          ExpressionAttributeValues: Object.keys(userValues).length > 0 ? userValues : undefined,
+        },
+      },
+    ];
+    // Users without a username have no reservation to update
+    if (typeof user.username === "string") {
+      transactItems.push({
+        Update: {
+          TableName: this.usernameTable,
+          Key: { username: user.username.toLowerCase() },
+          UpdateExpression: reservationUpdate.UpdateExpression,
+          ConditionExpression: "attribute_not_exists(username) OR user_id = :user_id",
+          ExpressionAttributeValues: {
+            ...expressionValues(reservationUpdate.Values),
+            ":user_id": userId,
+          },
+        },
+      });
+    }
+
+    const command = new TransactWriteCommand({ TransactItems: transactItems });
+
+    try {
+      await this.docClient.send(command);
+    } catch (e) {
+      if (failedCondition(e, 0)) {
+        throw new ErrorWithStatus("User Id does not exist", 400, "USER_NOT_FOUND");
+      }
+      throw e;
+    }
+  }
+
+  // Reservations may be missing for users created before usernames were reserved, so a reservation
+  // is only required to belong to the user if it exists
+  private releaseUsername(key: string, userId: string) {
+    return {
+      Delete: {
+        TableName: this.usernameTable,
+        Key: { username: key },
+        ConditionExpression: "attribute_not_exists(username) OR user_id = :user_id",
+        ExpressionAttributeValues: { ":user_id": userId },
+      },
+    };
+  }
+}
+
+// The `a = :a, b = :b` part of an update expression that sets every attribute in values
+function setExpression(values: { [key: string]: unknown }): string {
+  return Object.keys(values)
+    .map((infoName) => `${infoName} = :${infoName}`)
+    .join(", ");
+}
+
+function expressionValues(values: { [key: string]: unknown }): { [key: string]: unknown } {
+  return Object.entries(values).reduce(
+    (acc, [infoName, infoValue]) => ({
+      ...acc,
+      [`:${infoName}`]: infoValue,
+    }),
+    {}
+  );
+}
+
+// Whether a transaction was cancelled because the condition on the item at `index` failed
+function failedCondition(error: unknown, index: number): boolean {
+  return (
+    error instanceof TransactionCanceledException &&
+    error.CancellationReasons?.[index]?.Code === "ConditionalCheckFailed"
+  );
+}
+
+function usernameTakenError(username: string): ErrorWithStatus {
+  return new ErrorWithStatus(`Username '${username}' has been taken`, 409, "USERNAME_TAKEN");
+}
@@ -0,0 +1,47 @@
+import { AuditEvent, AuditPage, AuditQuery, AuditStore } from "../types/auditStore";
+import { decodeCursor, encodeCursor } from "./cursor";
+
+/**
+ * AuditStore that keeps events in memory. Used for tests and local development. Expired events are
+ * dropped when they are next read.
+ */
+export class MemoryAuditStore implements AuditStore {
+  private events: { key: string; event: AuditEvent; expiresAt: Date }[] = [];
+  // Distinguishes events recorded in the same millisecond
+  private sequence = 0;
+
+  async record(event: AuditEvent, expiresAt: Date) {
+    const key = `${event.timestamp}#${String(this.sequence++).padStart(10, "0")}`;
+    this.events.push({ key, event: structuredClone(event), expiresAt });
+  }
+
+  async query(userId: string, query: AuditQuery): Promise<AuditPage> {
+    const now = new Date();
+    this.events = this.events.filter(({ expiresAt }) => expiresAt > now);
+
+    const from = query.from.toISOString();
+    const to = query.to.toISOString();
+    const before = query.cursor === undefined ? undefined : decodeCursor(query.cursor, ["key"]).key;
+
+    // Newest first, like the DynamoDB store
+    const matching = this.events
+      .filter(({ event }) => event.userId === userId)
+      .filter(({ event }) => event.timestamp >= from && event.timestamp <= to)
+      .filter(({ key }) => before === undefined || key < before)
+      .sort((a, b) => b.key.localeCompare(a.key));
+
+    const page = matching.slice(0, query.limit);
+    const events = page.map(({ event }) => structuredClone(event));
+    if (matching.length <= query.limit) {
+      return { events };
+    }
+    return { events, cursor: encodeCursor({ key: page[page.length - 1].key }) };
+  }
+
+  /**
+   * Removes every event
+   */
+  clear() {
+    this.events = [];
+  }
+}
@@ -0,0 +1,34 @@
+import { MailQueue, QueuedMail } from "../types/mailQueue";
+
+/**
+ * MailQueue that keeps emails in memory. Used for tests and local development. Expired emails are
+ * dropped when the queue is next read.
+ */
+export class MemoryMailQueue implements MailQueue {
+  private mails = new Map<string, { mail: QueuedMail; expiresAt: Date }>();
+
+  async put(mail: QueuedMail, expiresAt: Date) {
+    this.mails.set(mail.id, { mail: structuredClone(mail), expiresAt });
+  }
+
+  async listDue(now: Date, limit: number) {
+    return [...this.mails.values()]
+      .filter(({ expiresAt }) => expiresAt > now)
+      .map(({ mail }) => mail)
+      .filter((mail) => mail.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit)
+      .map((mail) => structuredClone(mail));
+  }
+
+  async remove(id: string) {
+    this.mails.delete(id);
+  }
+
+  /**
+   * Removes every email
+   */
+  clear() {
+    this.mails.clear();
+  }
+}
@@ -0,0 +1,53 @@
+import { RecordStore, RecordValues } from "../types/recordStore";
+
+/**
+ * RecordStore that keeps records in memory. Used for tests and local development. Expired records
+ * are dropped when they are next read.
+ */
+export class MemoryRecordStore implements RecordStore {
+  private records = new Map<string, { values: RecordValues; expiresAt: Date }>();
+
+  async get<T = RecordValues>(key: string) {
+    const values = this.getLive(key);
+    return values === undefined ? undefined : (structuredClone(values) as T);
+  }
+
+  async put(key: string, values: RecordValues, expiresAt: Date) {
+    this.records.set(key, { values: structuredClone(values), expiresAt });
+  }
+
+  async update(key: string, values: RecordValues, expiresAt: Date) {
+    const existing = this.getLive(key) ?? {};
+    this.records.set(key, { values: { ...existing, ...structuredClone(values) }, expiresAt });
+  }
+
+  async increment(key: string, field: string, expiresAt: Date) {
+    const existing = this.getLive(key) ?? {};
+    const value = ((existing[field] as number | undefined) ?? 0) + 1;
+    this.records.set(key, { values: { ...existing, [field]: value }, expiresAt });
+    return value;
+  }
+
+  async delete(key: string) {
+    this.records.delete(key);
+  }
+
+  /**
+   * Removes every record
+   */
+  clear() {
+    this.records.clear();
+  }
+
+  private getLive(key: string): RecordValues | undefined {
+    const record = this.records.get(key);
+    if (record === undefined) {
+      return undefined;
+    }
+    if (record.expiresAt <= new Date()) {
+      this.records.delete(key);
+      return undefined;
+    }
+    return record.values;
+  }
+}
@@ -0,0 +1,215 @@
+import { isDeepStrictEqual } from "util";
+import { ErrorWithStatus } from "../types/errorWithStatus";
+import { UserAttributes, UserItem, UserListQuery, UserPage, UserStore } from "../types/userStore";
+import { decodeCursor, encodeCursor } from "./cursor";
+
+/**
+ * UserStore that keeps every table in memory. Used for tests and local development, so that the
+ * whole registration, login and reset flow can run without DynamoDB. Data is lost when the process
+ * exits.
+ */
+export class MemoryUserStore implements UserStore {
+  private tables = new Map<string, Map<string, UserItem>>();
+  // Lowercased username to user_id, per table
+  private usernames = new Map<string, Map<string, string>>();
+
+  // None of these methods await between checking and writing a reservation, so they are atomic
+
+  async addUser(table: string, item: UserItem) {
+    const usernames = this.getUsernames(table);
+    const key = item.username.toLowerCase();
+    if (usernames.has(key)) {
+      throw new ErrorWithStatus(
+        `Username '${item.username}' has been taken`,
+        409,
+        "USERNAME_TAKEN"
+      );
+    }
+    usernames.set(key, item.user_id);
+    this.getTable(table).set(item.user_id, copy(item));
+  }
+
+  async changeUsername(table: string, userId: string, username: string) {
+    const item = this.getTable(table).get(userId);
+    if (item === undefined) {
+      throw new ErrorWithStatus("User Id does not exist", 400, "USER_NOT_FOUND");
+    }
+
+    const usernames = this.getUsernames(table);
+    const key = username.toLowerCase();
+    const owner = usernames.get(key);
+    if (owner !== undefined && owner !== userId) {
+      throw new ErrorWithStatus(`Username '${username}' has been taken`, 409, "USERNAME_TAKEN");
+    }
+
+    this.releaseUsername(table, item);
+    usernames.set(key, userId);
+    item.username = username;
+  }
+
+  async editUser(table: string, userId: string, values: { [key: string]: unknown }) {
+    const item = this.getTable(table).get(userId);
+    if (item === undefined) {
+      throw new ErrorWithStatus("User Id does not exist", 400, "USER_NOT_FOUND");
+    }
+    Object.assign(item, copy(values));
+  }
+
+  async editUserIf(
+    table: string,
+    userId: string,
+    values: { [key: string]: unknown },
+    expected: { [key: string]: unknown }
+  ) {
+    const item = this.getTable(table).get(userId);
+    if (item === undefined) {
+      return false;
+    }
+    for (const [key, value] of Object.entries(expected)) {
+      if (!isDeepStrictEqual(item[key], value)) {
+        return false;
+      }
+    }
+    Object.assign(item, copy(values));
+    return true;
+  }
+
+  async deleteUser(table: string, userId: string) {
+    const item = this.getTable(table).get(userId);
+    if (item === undefined) {
+      throw new ErrorWithStatus("User Id does not exist", 400, "USER_NOT_FOUND");
+    }
+    this.releaseUsername(table, item);
+    this.getTable(table).delete(userId);
+  }
+
+  async scheduleDeletion(
+    table: string,
+    userId: string,
+    purgeAt: Date,
+    values: { [key: string]: unknown }
+  ) {
+    await this.editUser(table, userId, { ...values, purge_at: toEpochSeconds(purgeAt) });
+  }
+
+  async cancelDeletion(
+    table: string,
+    userId: string,
+    values: { [key: string]: unknown },
+    removed: string[] = []
+  ) {
+    await this.editUser(table, userId, values);
+    const item = this.getTable(table).get(userId);
+    for (const key of ["purge_at", ...removed]) {
+      delete item?.[key];
+    }
+  }
+
+  async getUser(table: string, userId: string, fields?: string[]) {
+    const item = this.getTable(table).get(userId);
+    if (item === undefined) {
+      return undefined;
+    }
+    if (fields === undefined) {
+      return copy(item);
+    }
+
+    // Mirror DynamoDB projections, which leave out attributes the item does not have
+    const projected: UserAttributes = {};
+    for (const field of fields) {
+      if (item[field] !== undefined) {
+        projected[field] = copy(item[field]);
+      }
+    }
+    return projected as UserItem;
+  }
+
+  async findUserByEmail(table: string, email: string) {
+    for (const item of this.getTable(table).values()) {
+      if (item.email === email) {
+        return copy(item);
+      }
+    }
+    return undefined;
+  }
+
+  async listUsers(table: string, query: UserListQuery): Promise<UserPage> {
+    // Mirror DynamoDB scans, which look at a page of users before filtering them
+    let after = "";
+    if (query.cursor !== undefined) {
+      after = decodeCursor(query.cursor, ["user_id"]).user_id;
+    }
+    const remaining = [...this.getTable(table).keys()].filter((id) => id > after).sort();
+    const page = remaining.slice(0, query.limit);
+
+    const users = page
+      .map((id) => this.getTable(table).get(id) as UserItem)
+      .filter((item) => startsWith(item.email, query.emailPrefix))
+      .filter((item) => startsWith(item.username, query.usernamePrefix))
+      .map(copy);
+
+    if (remaining.length <= query.limit) {
+      return { users };
+    }
+    return { users, cursor: encodeCursor({ user_id: page[page.length - 1] }) };
+  }
+
+  /**
+   * Removes every user from every table
+   */
+  clear() {
+    this.tables.clear();
+    this.usernames.clear();
+  }
+
+  private releaseUsername(table: string, item: UserItem) {
+    if (typeof item.username !== "string") {
+      return;
+    }
+    const usernames = this.getUsernames(table);
+    const key = item.username.toLowerCase();
+    if (usernames.get(key) === item.user_id) {
+      usernames.delete(key);
+    }
+  }
+
+  private getTable(table: string): Map<string, UserItem> {
+    let users = this.tables.get(table);
+    if (users === undefined) {
+      users = new Map();
+      this.tables.set(table, users);
+    }
+
+    // Mirror DynamoDB TTL, though users are dropped as soon as their purge_at passes
+    const now = toEpochSeconds(new Date());
+    for (const [userId, item] of users) {
+      if (item.purge_at !== undefined && item.purge_at <= now) {
+        this.releaseUsername(table, item);
+        users.delete(userId);
+      }
+    }
+    return users;
+  }
+
+  private getUsernames(table: string): Map<string, string> {
+    let usernames = this.usernames.get(table);
+    if (usernames === undefined) {
+      usernames = new Map();
+      this.usernames.set(table, usernames);
+    }
+    return usernames;
+  }
+}
+
+function startsWith(value: unknown, prefix?: string): boolean {
+  return prefix === undefined || (typeof value === "string" && value.startsWith(prefix));
+}
+
+function toEpochSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+// Callers must not be able to mutate stored items through returned references
+function copy<T>(value: T): T {
+  return structuredClone(value);
+}
@@ -0,0 +1,21 @@
+import { EmailTemplates } from "../types/email";
+
+// Sent on registration and by /resend-verification with the token to verify the user's email with.
+// Variables: token, expiresInHours
+export const EMAIL_VERIFICATION_TEMPLATES: EmailTemplates = {
+  en: `<html>
+  <head>
+    <title>Verify Your Email ✉️</title>
+  </head>
+  <body>
+    <div align="center" style="font-family: Arial, Helvetica, sans-serif; font-weight: bold;">
+      <h2 style="font-size: x-large;">Please Verify Your Email</h2>
+      <p style="font-size: larger;">{{token}}</p>
+      <p style="font-size: medium;">
+        Please copy this token into your application to verify your email. It expires in
+        {{expiresInHours}} hours. If you didn't create an account, you can safely ignore this email.
+      </p>
+    </div>
+  </body>
+</html>`,
+};
@@ -0,0 +1,22 @@
+import { EmailTemplates } from "../types/email";
+
+// Sent by /passwordless/start with a link to sign in with.
+// Variables: link, expiresInMinutes
+export const MAGIC_LINK_TEMPLATES: EmailTemplates = {
+  en: `<html>
+  <head>
+    <title>Your Sign In Link 🔑</title>
+  </head>
+  <body>
+    <div align="center" style="font-family: Arial, Helvetica, sans-serif; font-weight: bold;">
+      <h2 style="font-size: x-large;">Sign In to Your Account</h2>
+      <p style="font-size: larger;"><a href="{{link}}">Sign in</a></p>
+      <p style="font-size: medium;">
+        Please open this link on the device you want to sign in on. It expires in
+        {{expiresInMinutes}} minutes. If you didn't try to sign in, you can safely ignore this
+        email.
+      </p>
+    </div>
+  </body>
+</html>`,
+};
@@ -0,0 +1,23 @@
+import { EmailTemplates } from "../types/email";
+
+// Sent by /pw-reset-token with the token to reset the user's password with, unless reset links
+// are enabled (see passwordResetLink).
+// Variables: token, expiresInMinutes
+export const PASSWORD_RESET_TEMPLATES: EmailTemplates = {
+  en: `<html>
+  <head>
+    <title>Password Reset Request 🔑</title>
+  </head>
+  <body>
+    <div align="center" style="font-family: Arial, Helvetica, sans-serif; font-weight: bold;">
+      <h2 style="font-size: x-large;">Here is Your Password Reset Token</h2>
+      <p style="font-size: larger;">{{token}}</p>
+      <p style="font-size: medium;">
+        Please copy this token into your application to reset your password. It expires in
+        {{expiresInMinutes}} minutes. If you didn't request a password reset, you can safely ignore
+        this email.
+      </p>
+    </div>
+  </body>
+</html>`,
+};
@@ -0,0 +1,22 @@
+import { EmailTemplates } from "../types/email";
+
+// Sent by /pw-reset-token, when account enumeration protection is on, if the account has no
+// password to reset.
+// Variables: signInMethods
+export const PASSWORD_RESET_ATTEMPT_TEMPLATES: EmailTemplates = {
+  en: `<html>
+  <head>
+    <title>Password Reset Request 🔒</title>
+  </head>
+  <body>
+    <div align="center" style="font-family: Arial, Helvetica, sans-serif; font-weight: bold;">
+      <h2 style="font-size: x-large;">Your Account Has No Password</h2>
+      <p style="font-size: medium;">
+        Someone just asked to reset the password of your account, but it does not have a password.
+        You sign in with {{signInMethods}} instead. If you didn't request a password reset, you can
+        safely ignore this email.
+      </p>
+    </div>
+  </body>
+</html>`,
+};
@@ -0,0 +1,17 @@
+import { EmailTemplates } from "../types/email";
+
+// Sent once a user has reset their password with a token from /pw-reset-token.
+// Variables: none
+export const PASSWORD_RESET_CONFIRMATION_TEMPLATES: EmailTemplates = {
+  en: `<html>
+  <head>
+    <title>Password Reset Confirmation 🔑</title>
+  </head>
+  <body>
+    <div align="center" style="font-family: Arial, Helvetica, sans-serif; font-weight: bold;">
+      <h2 style="font-size: x-large;">Your Password Has Been Reset</h2>
+      <p style="font-size: larger;">You may now login with your new password.</p>
+    </div>
+  </body>
+</html>`,
+};
@@ -0,0 +1,26 @@
+import { EmailTemplates } from "../types/email";
+
+// Sent by /pw-reset-token instead of the passwordReset email when reset links are enabled, with a
+// link to reset the user's password and the token to enter if the link cannot be opened.
+// Variables: link, token, expiresInMinutes
+export const PASSWORD_RESET_LINK_TEMPLATES: EmailTemplates = {
+  en: `<html>
+  <head>
+    <title>Password Reset Request 🔑</title>
+  </head>
+  <body>
+    <div align="center" style="font-family: Arial, Helvetica, sans-serif; font-weight: bold;">
+      <h2 style="font-size: x-large;">Reset Your Password</h2>
+      <p style="font-size: larger;"><a href="{{link}}">Reset password</a></p>
+      <p style="font-size: medium;">
+        If the link does not work, copy this token into your application instead:
+      </p>
+      <p style="font-size: larger;">{{token}}</p>
+      <p style="font-size: medium;">
+        The link and token expire in {{expiresInMinutes}} minutes, and can only be used once. If you
+        didn't request a password reset, you can safely ignore this email.
+      </p>
+    </div>
+  </body>
+</html>`,
+};
@@ -0,0 +1,22 @@
+import { EmailTemplates } from "../types/email";
+
+// Sent by /authenticate, when account enumeration protection is on, if someone tries to sign in
+// to an account without a password.
+// Variables: signInMethods
+export const PASSWORD_SIGN_IN_ATTEMPT_TEMPLATES: EmailTemplates = {
+  en: `<html>
+  <head>
+    <title>Someone Tried to Sign In With a Password 🔒</title>
+  </head>
+  <body>
+    <div align="center" style="font-family: Arial, Helvetica, sans-serif; font-weight: bold;">
+      <h2 style="font-size: x-large;">Your Account Has No Password</h2>
+      <p style="font-size: medium;">
+        Someone just tried to sign in to your account with a password, but it does not have one.
+        You sign in with {{signInMethods}} instead, and can link a password to your account once
+        you have. If it wasn't you, you can safely ignore this email.
+      </p>
+    </div>
+  </body>
+</html>`,
+};
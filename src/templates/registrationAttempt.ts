@@ -0,0 +1,22 @@
+import { EmailTemplates } from "../types/email";
+
+// Sent by /register, when account enumeration protection is on, if the email already has an
+// account.
+// Variables: signInMethods
+export const REGISTRATION_ATTEMPT_TEMPLATES: EmailTemplates = {
+  en: `<html>
+  <head>
+    <title>Someone Tried to Register With Your Email 🔒</title>
+  </head>
+  <body>
+    <div align="center" style="font-family: Arial, Helvetica, sans-serif; font-weight: bold;">
+      <h2 style="font-size: x-large;">You Already Have an Account</h2>
+      <p style="font-size: medium;">
+        Someone just tried to create a new account with this email. If it was you, you already
+        have an account, and can sign in with {{signInMethods}}. If you have forgotten your
+        password, you can reset it. If it wasn't you, you can safely ignore this email.
+      </p>
+    </div>
+  </body>
+</html>`,
+};
@@ -0,0 +1,22 @@
+import { EmailTemplates } from "../types/email";
+
+// Sent by /passwordless/start with a code to sign in with.
+// Variables: code, expiresInMinutes
+export const SIGN_IN_CODE_TEMPLATES: EmailTemplates = {
+  en: `<html>
+  <head>
+    <title>Your Sign In Code 🔑</title>
+  </head>
+  <body>
+    <div align="center" style="font-family: Arial, Helvetica, sans-serif; font-weight: bold;">
+      <h2 style="font-size: x-large;">Here is Your Sign In Code</h2>
+      <p style="font-size: larger;">{{code}}</p>
+      <p style="font-size: medium;">
+        Please enter this code into your application to sign in. It expires in
+        {{expiresInMinutes}} minutes. If you didn't try to sign in, you can safely ignore this
+        email.
+      </p>
+    </div>
+  </body>
+</html>`,
+};
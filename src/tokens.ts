@@ -0,0 +1,179 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { TOKEN_SETTINGS, recordStore, userStore } from "./constants";
+import { signJwt } from "./jwt";
+import { ErrorWithStatus } from "./types/errorWithStatus";
+import { logger } from ".";
+
+// What is returned to the client on a successful sign in or refresh
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: "Bearer";
+  // Seconds until the access token expires
+  expiresIn: number;
+}
+
+// A refresh token that has been issued. Only a hash of its secret is stored.
+interface RefreshTokenRecord {
+  user_id: string;
+  family_id: string;
+  secret_hash: string;
+  uses: number;
+}
+
+/**
+ * This function checks whether token issuing has been configured
+ * @returns whether the TOKEN_SIGNING_KEY env var has been set
+ */
+export function tokensEnabled(): boolean {
+  return !!TOKEN_SETTINGS.signingKey;
+}
+
+/**
+ * This function issues an access token and a refresh token for a user who has just signed in. Each
+ * sign in starts a new refresh token family.
+ * @param table the table to read the user's claims from
+ * @param userId the user_id of the user
+ * @returns the tokens, or undefined if token issuing has not been configured
+ */
+export async function issueTokens(
+  table: string,
+  userId: string
+): Promise<IssuedTokens | undefined> {
+  if (!tokensEnabled()) {
+    return undefined;
+  }
+  return await issueTokenPair(table, userId, randomUUID());
+}
+
+/**
+ * This function swaps a refresh token for a new access token and refresh token. Each refresh token
+ * can only be used once; if a used one is presented again, it has probably been stolen, so every
+ * token in its family is revoked.
+ * @param table the table to read the user's claims from
+ * @param refreshToken the refresh token provided by the request
+ * @returns the new tokens, throws a 401 error if the refresh token is invalid
+ */
+export async function refreshTokens(table: string, refreshToken: string): Promise<IssuedTokens> {
+  if (!tokensEnabled()) {
+    throw new ErrorWithStatus("Token issuing is not enabled", 404, "TOKENS_DISABLED");
+  }
+
+  const { tokenId, record } = await findRefreshToken(refreshToken);
+  const family = await recordStore.get(familyKey(record.family_id));
+  if (family === undefined) {
+    throw invalidRefreshTokenError();
+  }
+
+  // Incrementing is atomic, so only one of two concurrent uses of a token can see 1
+  const uses = await recordStore.increment(tokenKey(tokenId), "uses", expiryFromNow());
+  if (uses > 1) {
+    logger.warn("Refresh token reused, revoking its family", {
+      userId: record.user_id,
+      familyId: record.family_id,
+    });
+    await recordStore.delete(familyKey(record.family_id));
+    throw invalidRefreshTokenError();
+  }
+
+  // Disabling an account ends its sessions as their access tokens expire
+  const user = await userStore.getUser(table, record.user_id, ["disabled"]);
+  if (user?.disabled === true) {
+    await recordStore.delete(familyKey(record.family_id));
+    throw new ErrorWithStatus("This account has been disabled", 403, "ACCOUNT_DISABLED");
+  }
+
+  return await issueTokenPair(table, record.user_id, record.family_id);
+}
+
+/**
+ * This function revokes a refresh token, along with every other token in its family. Invalid
+ * tokens are ignored, so that callers cannot use this to check whether a token is valid.
+ * @param refreshToken the refresh token provided by the request
+ */
+export async function revokeRefreshToken(refreshToken: string) {
+  try {
+    const { record } = await findRefreshToken(refreshToken);
+    await recordStore.delete(familyKey(record.family_id));
+  } catch (err) {
+    if (!(err instanceof ErrorWithStatus) || err.statusCode !== 401) {
+      throw err;
+    }
+  }
+}
+
+async function issueTokenPair(table: string, userId: string, familyId: string) {
+  const now = Math.floor(Date.now() / 1000);
+
+  // Copy the configured user fields into the access token
+  const user = (await userStore.getUser(table, userId, TOKEN_SETTINGS.claims)) ?? {};
+  const accessToken = signJwt(
+    {
+      ...user,
+      sub: userId,
+      iss: TOKEN_SETTINGS.issuer,
+      aud: TOKEN_SETTINGS.audience,
+      iat: now,
+      exp: now + TOKEN_SETTINGS.accessTokenSeconds,
+    },
+    TOKEN_SETTINGS.signingKey as string
+  );
+
+  // The refresh token is "<id>.<secret>". Only a hash of the secret is stored.
+  const tokenId = randomUUID();
+  const secret = randomBytes(32).toString("base64url");
+  await recordStore.put(familyKey(familyId), { user_id: userId }, expiryFromNow());
+  await recordStore.put(
+    tokenKey(tokenId),
+    { user_id: userId, family_id: familyId, secret_hash: hash(secret), uses: 0 },
+    expiryFromNow()
+  );
+
+  return {
+    accessToken,
+    refreshToken: `${tokenId}.${secret}`,
+    tokenType: "Bearer" as const,
+    expiresIn: TOKEN_SETTINGS.accessTokenSeconds,
+  };
+}
+
+async function findRefreshToken(refreshToken: string) {
+  const [tokenId, secret] = refreshToken.split(".");
+  if (!tokenId || !secret) {
+    throw invalidRefreshTokenError();
+  }
+
+  const record = await recordStore.get<RefreshTokenRecord>(tokenKey(tokenId));
+  if (record === undefined) {
+    throw invalidRefreshTokenError();
+  }
+
+  // Refresh token secrets are random, so a fast hash is enough, but compare in constant time
+  const expected = Buffer.from(record.secret_hash, "hex");
+  const actual = Buffer.from(hash(secret), "hex");
+  if (!timingSafeEqual(actual, expected)) {
+    throw invalidRefreshTokenError();
+  }
+
+  return { tokenId, record };
+}
+
+function hash(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+function expiryFromNow(): Date {
+  return new Date(Date.now() + TOKEN_SETTINGS.refreshTokenSeconds * 1000);
+}
+
+function invalidRefreshTokenError(): ErrorWithStatus {
+  return new ErrorWithStatus("Invalid Refresh Token", 401, "INVALID_REFRESH_TOKEN");
+}
+
+function tokenKey(tokenId: string): string {
+  return `refresh#${tokenId}`;
+}
+
+function familyKey(familyId: string): string {
+  return `refresh-family#${familyId}`;
+}
@@ -0,0 +1,40 @@
+import { randomUUID } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import { join } from "path";
+import nodemailer from "nodemailer";
+import { MailMessage, MailTransport } from "../types/mailTransport";
+
+export type OutboxFormat = "json" | "eml";
+
+/**
+ * MailTransport that writes emails to files in an outbox directory instead of sending them. Used
+ * for local development. EML files can be opened in most mail clients.
+ */
+export class FileMailTransport implements MailTransport {
+  // Builds the raw MIME message of EML files, without sending it
+  private mimeBuilder = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: "unix",
+  });
+
+  constructor(
+    private directory: string,
+    private format: OutboxFormat
+  ) {}
+
+  async send(message: MailMessage) {
+    await mkdir(this.directory, { recursive: true });
+
+    // Named so that files sort in the order they were sent
+    const sentAt = new Date().toISOString();
+    const file = join(this.directory, `${sentAt.replace(/[:.]/g, "-")}-${randomUUID()}`);
+
+    if (this.format === "eml") {
+      const { message: mime } = await this.mimeBuilder.sendMail(message);
+      await writeFile(`${file}.eml`, mime);
+    } else {
+      await writeFile(`${file}.json`, JSON.stringify({ sentAt, ...message }, null, 2));
+    }
+  }
+}
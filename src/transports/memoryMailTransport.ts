@@ -0,0 +1,21 @@
+import { MailMessage, MailTransport } from "../types/mailTransport";
+
+/**
+ * MailTransport that keeps emails in memory instead of sending them, so that tests can check what
+ * would have been sent
+ */
+export class MemoryMailTransport implements MailTransport {
+  // Every email sent, oldest first
+  sent: MailMessage[] = [];
+
+  async send(message: MailMessage) {
+    this.sent.push(structuredClone(message));
+  }
+
+  /**
+   * Forgets every email sent
+   */
+  clear() {
+    this.sent = [];
+  }
+}
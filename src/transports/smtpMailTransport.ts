@@ -0,0 +1,32 @@
+import nodemailer, { Transporter } from "nodemailer";
+import { MailMessage, MailTransport } from "../types/mailTransport";
+
+// How to connect to an SMTP server
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  // Whether to connect over TLS. Otherwise, STARTTLS is used if the server supports it.
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+/**
+ * MailTransport that sends emails through an SMTP server, such as Gmail's
+ */
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor(settings: SmtpSettings) {
+    this.transporter = nodemailer.createTransport({
+      host: settings.host,
+      port: settings.port,
+      secure: settings.secure,
+      auth: settings.user === undefined ? undefined : { user: settings.user, pass: settings.pass },
+    });
+  }
+
+  async send(message: MailMessage) {
+    await this.transporter.sendMail(message);
+  }
+}
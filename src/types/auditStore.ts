@@ -0,0 +1,68 @@
+// The security-relevant events recorded in the audit log
+export type AuditEventType =
+  | "register"
+  | "login"
+  | "oauth_login"
+  // The first step of a sign in has succeeded, and the user must complete an MFA challenge
+  | "mfa_challenge"
+  | "passwordless_request"
+  | "passwordless_login"
+  | "password_change"
+  | "password_reset_request"
+  | "password_reset"
+  | "fields_edit"
+  | "delete";
+
+// A security-relevant event on a user's account
+export interface AuditEvent {
+  userId: string;
+  type: AuditEventType;
+  outcome: "success" | "failure";
+  // When the event happened, as an ISO 8601 timestamp
+  timestamp: string;
+  sourceIp?: string;
+  userAgent?: string;
+  // The error code of a failure, e.g. INVALID_CREDENTIALS
+  errorCode?: string;
+  // Identifies the request in the logs
+  requestId?: string;
+  // Anything else worth knowing about the event, e.g. which fields were edited
+  details?: { [key: string]: unknown };
+}
+
+// Which of a user's events to get. Both ends of the time range are included.
+export interface AuditQuery {
+  from: Date;
+  to: Date;
+  limit: number;
+  // The cursor of the previous page, to continue after it
+  cursor?: string;
+}
+
+// A page of audit events, newest first
+export interface AuditPage {
+  events: AuditEvent[];
+  // Pass to the next query to get the next page. Undefined on the last page.
+  cursor?: string;
+}
+
+/**
+ * Storage for the audit log. Events are kept until they expire, then deleted.
+ */
+export interface AuditStore {
+  /**
+   * Records an event
+   * @param event the event
+   * @param expiresAt when the event should be deleted
+   */
+  record(event: AuditEvent, expiresAt: Date): Promise<void>;
+
+  /**
+   * Gets a user's events within a time range, newest first. Throws a 400 ErrorWithStatus if the
+   * cursor is invalid.
+   * @param userId the user_id of the user
+   * @param query the time range, and where to continue from
+   * @returns the page of events, and the cursor of the next page
+   */
+  query(userId: string, query: AuditQuery): Promise<AuditPage>;
+}
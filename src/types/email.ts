@@ -0,0 +1,31 @@
+// The kinds of email the service sends. Each has a template in src/templates.
+export type EmailType =
+  | "passwordReset"
+  | "passwordResetLink"
+  | "emailVerification"
+  | "passwordResetConfirmation"
+  | "signInCode"
+  | "magicLink"
+  | AccountNoticeType;
+
+// Emails telling the owner of an account about a request made with their email, whose response
+// did not reveal that the account exists (see src/enumeration.ts)
+export type AccountNoticeType =
+  "registrationAttempt" | "passwordResetAttempt" | "passwordSignInAttempt";
+
+// The variables an email's template can use, e.g. {{token}}
+export type EmailVariables = { [name: string]: string | number };
+
+// The templates of one kind of email, by locale, e.g. "en" or "pt-BR". Each template is an HTML
+// document whose <title> is the subject.
+export type EmailTemplates = { [locale: string]: string };
+
+// An email ready to send
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  // The plain-text alternative, for mail clients that do not show HTML
+  text: string;
+  // The locale of the template that was used
+  locale: string;
+}
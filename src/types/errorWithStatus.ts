@@ -1,8 +1,94 @@
+// Stable, machine-readable codes for every error the API returns. Clients should switch on these
+// rather than on messages, which may change. See the Errors section of the README for their
+// meanings.
+export type ErrorCode =
+  // Generic codes, used when nothing more specific applies
+  | "INVALID_REQUEST"
+  | "INVALID_JSON"
+  | "AUTHENTICATION_REQUIRED"
+  | "ACCESS_DENIED"
+  | "NOT_FOUND"
+  | "METHOD_NOT_ALLOWED"
+  | "CONFLICT"
+  | "RATE_LIMITED"
+  | "INTERNAL_ERROR"
+  // Users and their fields
+  | "USER_NOT_FOUND"
+  | "EMAIL_NOT_FOUND"
+  | "INVALID_EMAIL"
+  | "EMAIL_TAKEN"
+  | "INVALID_USERNAME"
+  | "USERNAME_TAKEN"
+  | "INVALID_USER_FIELDS"
+  | "FIELDS_NOT_SET"
+  | "USER_NOT_DELETED"
+  // Passwords and signing in
+  | "INVALID_CREDENTIALS"
+  | "PASSWORD_POLICY"
+  | "PASSWORD_UNCHANGED"
+  | "WRONG_PROVIDER"
+  | "ACCOUNT_LOCKED"
+  | "EMAIL_NOT_VERIFIED"
+  | "EMAIL_ALREADY_VERIFIED"
+  | "ACCOUNT_DISABLED"
+  | "ACCOUNT_DELETED"
+  | "PASSWORD_RESET_REQUIRED"
+  | "INVALID_SIGN_IN_CODE"
+  // Tokens and API keys
+  | "INVALID_TOKEN"
+  | "TOKEN_EXPIRED"
+  | "INVALID_REFRESH_TOKEN"
+  | "TOKENS_DISABLED"
+  | "INVALID_API_KEY"
+  // OAuth providers
+  | "UNSUPPORTED_PROVIDER"
+  | "PROVIDER_NOT_LINKED"
+  | "PROVIDER_ALREADY_LINKED"
+  | "IDENTITY_MISMATCH"
+  | "LAST_SIGN_IN_METHOD"
+  // MFA
+  | "MFA_ALREADY_ENABLED"
+  | "MFA_NOT_ENABLED"
+  | "MFA_ENROLLMENT_NOT_STARTED"
+  | "INVALID_MFA_CODE"
+  | "INVALID_MFA_CHALLENGE"
+  // Dependencies of the service
+  | "CONFIGURATION_ERROR";
+
+// The body of every error response
+export interface ErrorEnvelope {
+  code: ErrorCode;
+  message: string;
+  details?: unknown;
+  // Identifies the request in the logs
+  requestId: string;
+}
+
+// The code of errors that are not given one
+const DEFAULT_CODES: { [statusCode: number]: ErrorCode } = {
+  400: "INVALID_REQUEST",
+  401: "AUTHENTICATION_REQUIRED",
+  403: "ACCESS_DENIED",
+  404: "NOT_FOUND",
+  405: "METHOD_NOT_ALLOWED",
+  409: "CONFLICT",
+  423: "ACCOUNT_LOCKED",
+  429: "RATE_LIMITED",
+};
+
 export class ErrorWithStatus extends Error {
   statusCode: number;
+  // Machine-readable code for the error. Defaults to a generic code for the status code.
+  code: ErrorCode;
+  // Optional structured information about the error, returned alongside the message
+  details?: unknown;
+  // Optional headers to add to the response, e.g. Retry-After
+  headers?: { [header: string]: string };
 
-  constructor(message: string, statusCode: number) {
+  constructor(message: string, statusCode: number, code?: ErrorCode, details?: unknown) {
     super(message);
     this.statusCode = statusCode;
+    this.code = code ?? DEFAULT_CODES[statusCode] ?? "INTERNAL_ERROR";
+    this.details = details;
   }
 }
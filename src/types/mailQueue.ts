@@ -0,0 +1,44 @@
+import { MailMessage } from "./mailTransport";
+
+// An email that could not be sent, waiting to be retried
+export interface QueuedMail {
+  id: string;
+  message: MailMessage;
+  // When the first attempt failed
+  queuedAt: Date;
+  // How many times sending has been attempted
+  attempts: number;
+  // When to try again
+  nextAttemptAt: Date;
+  // Why the last attempt failed
+  lastError?: string;
+  // When the email stops being worth sending, e.g. when the token in it expires
+  expiresAt?: Date;
+}
+
+/**
+ * Storage for emails waiting to be retried. Emails disappear once they expire, so that emails that
+ * can never be sent are not kept forever.
+ */
+export interface MailQueue {
+  /**
+   * Adds an email to the queue, or replaces it if it is already queued
+   * @param mail the email, and when to retry it
+   * @param expiresAt when to give up on the email
+   */
+  put(mail: QueuedMail, expiresAt: Date): Promise<void>;
+
+  /**
+   * Gets the emails that are due to be retried
+   * @param now the current time
+   * @param limit the most emails to return
+   * @returns the emails whose next attempt is at or before now, oldest first
+   */
+  listDue(now: Date, limit: number): Promise<QueuedMail[]>;
+
+  /**
+   * Removes an email from the queue, e.g. once it has been sent
+   * @param id the ID of the email
+   */
+  remove(id: string): Promise<void>;
+}
@@ -0,0 +1,21 @@
+// An email ready to hand to a transport
+export interface MailMessage {
+  from?: string;
+  to: string;
+  subject: string;
+  html: string;
+  // The plain-text alternative
+  text: string;
+}
+
+/**
+ * Delivers emails, e.g. over SMTP or to files on disk. Transports are selected by MAIL_TRANSPORT.
+ */
+export interface MailTransport {
+  /**
+   * Sends an email
+   * @param message the email
+   * @returns nothing, throws an error if the email could not be sent
+   */
+  send(message: MailMessage): Promise<void>;
+}
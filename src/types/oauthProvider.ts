@@ -0,0 +1,11 @@
+import { JwksSource } from "../jwks";
+
+// How to verify ID tokens from an OAuth/OpenID Connect provider
+export interface OauthProviderConfig {
+  // Accepted values of the iss claim
+  issuers: string[];
+  // Your client ID at the provider, which must be in the aud claim
+  audience?: string;
+  // Where the provider publishes its signing keys
+  jwks: JwksSource;
+}
@@ -0,0 +1,48 @@
+// The attributes of a stored record, apart from its key and expiry
+export type RecordValues = Record<string, unknown>;
+
+/**
+ * Storage for short-lived records, such as failed login counters and one-time tokens. Records are
+ * identified by a string key (conventionally prefixed by their kind, e.g. "login#ip#1.2.3.4") and
+ * disappear once they expire.
+ */
+export interface RecordStore {
+  /**
+   * Gets a record. Records are not checked against T, which is the shape the caller stored.
+   * @param key the key of the record
+   * @returns the record's values, or undefined if it does not exist or has expired
+   */
+  get<T = RecordValues>(key: string): Promise<T | undefined>;
+
+  /**
+   * Creates or replaces a record
+   * @param key the key of the record
+   * @param values the values to store
+   * @param expiresAt when the record expires
+   */
+  put(key: string, values: RecordValues, expiresAt: Date): Promise<void>;
+
+  /**
+   * Sets values on a record, creating it if it does not exist or has expired
+   * @param key the key of the record
+   * @param values the values to set
+   * @param expiresAt when the record expires
+   */
+  update(key: string, values: RecordValues, expiresAt: Date): Promise<void>;
+
+  /**
+   * Atomically adds one to a numeric value on a record, creating the record if it does not exist or
+   * has expired
+   * @param key the key of the record
+   * @param field the name of the value to increment
+   * @param expiresAt when the record expires
+   * @returns the value after incrementing
+   */
+  increment(key: string, field: string, expiresAt: Date): Promise<number>;
+
+  /**
+   * Deletes a record, if it exists
+   * @param key the key of the record
+   */
+  delete(key: string): Promise<void>;
+}
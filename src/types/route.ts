@@ -0,0 +1,36 @@
+import { APIGatewayProxyResult, LambdaFunctionURLEvent } from "aws-lambda";
+import { AuthContext, AuthMethod } from "../authorization";
+import { EndpointSchema } from "./schema";
+
+// Handles a request to a route. Path parameters are in event.pathParameters.
+export type RouteHandler = (event: LambdaFunctionURLEvent) => Promise<APIGatewayProxyResult>;
+
+// Handles a request to a route once the caller has been authenticated
+export type AuthenticatedRouteHandler = (
+  event: LambdaFunctionURLEvent,
+  auth: AuthContext
+) => Promise<APIGatewayProxyResult>;
+
+// A route anybody can call
+export interface PublicRoute {
+  method: string;
+  // The path after /user-data/. Segments in braces are path parameters, e.g. "users/{id}".
+  path: string;
+  handler: RouteHandler;
+  // Documents the route, and validates its requests
+  schema: EndpointSchema;
+}
+
+// A route that only authenticated callers can call
+export interface ProtectedRoute {
+  method: string;
+  // The path after /user-data/. Segments in braces are path parameters, e.g. "users/{id}".
+  path: string;
+  // The authentication methods the route accepts
+  auth: AuthMethod[];
+  handler: AuthenticatedRouteHandler;
+  // Documents the route, and validates its requests
+  schema: EndpointSchema;
+}
+
+export type Route = PublicRoute | ProtectedRoute;
@@ -0,0 +1,37 @@
+// The subset of JSON Schema (draft 2020-12, as used by OpenAPI 3.1) that request and response
+// schemas may use. Every keyword here is enforced by validateJson in jsonSchema.ts.
+export interface JsonSchema {
+  type?: "string" | "number" | "integer" | "boolean" | "array" | "object";
+  description?: string;
+  // Objects
+  properties?: { [name: string]: JsonSchema };
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  // Arrays
+  items?: JsonSchema;
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  // Only documented, e.g. "email" or "uri"
+  format?: string;
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  // Any type
+  enum?: unknown[];
+}
+
+// How an endpoint is documented in the OpenAPI document, and how its requests are validated
+export interface EndpointSchema {
+  summary: string;
+  description?: string;
+  // The JSON body. Requests whose body does not match are rejected before the handler runs.
+  body?: JsonSchema;
+  // The query string parameters, as an object schema whose properties are all strings
+  query?: JsonSchema;
+  // The body of a successful response
+  response: { status?: number; description: string; schema?: JsonSchema };
+  // The error statuses the endpoint can return and when, besides the ones every endpoint can
+  errors?: { [status: number]: string };
+}
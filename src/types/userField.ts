@@ -0,0 +1,33 @@
+// The kinds of value a user field can hold. Lists and objects are stored as-is in DynamoDB.
+export type UserFieldType = "string" | "number" | "boolean" | "list" | "object";
+
+// How a single user field is stored, validated and exposed. Constraints that do not apply to the
+// field's type are ignored.
+export interface UserFieldDefinition {
+  type: UserFieldType;
+  // Whether users may set the field through /set (and /register)
+  editable?: boolean;
+  // Whether users may read the field through /get
+  retrievable?: boolean;
+  // Whether every user must have the field. Required fields must be passed to /register unless
+  // they have a default, and can never be removed.
+  required?: boolean;
+  // The value new users start with, and the value read back for users who have never set it
+  default?: unknown;
+  // Length limits, for strings (characters) and lists (items)
+  minLength?: number;
+  maxLength?: number;
+  // Range limits, for numbers
+  min?: number;
+  max?: number;
+  // Whether a number must be a whole number
+  integer?: boolean;
+  // A pattern that strings must match
+  pattern?: RegExp;
+  // Used in the error message when a string does not match the pattern
+  patternDescription?: string;
+  // The only values the field may take. For lists, the only values their items may take.
+  enum?: unknown[];
+  // The type every item of a list must have
+  items?: Exclude<UserFieldType, "list">;
+}
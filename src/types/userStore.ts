@@ -0,0 +1,173 @@
+// A single user row. DynamoDB is schema-less, so apart from user_id the attributes vary per user,
+// and reads that only ask for some attributes leave the rest out. The attributes this service
+// manages itself are typed here, while user fields (see USER_FIELDS) may hold any value.
+export interface UserItem {
+  user_id: string;
+  username: string;
+  email: string;
+  password_hash?: string;
+  // Hashes of recent passwords, newest first
+  password_history?: string[];
+  email_verified?: boolean;
+  identities?: LinkedIdentity[];
+  // Only set on users who signed up with a provider before identities were recorded
+  provider?: string;
+  locale?: string;
+  disabled?: boolean;
+  disabled_before_deletion?: boolean;
+  password_reset_required?: boolean;
+  // When a deleted user will be purged, in epoch seconds
+  purge_at?: number;
+  mfa_enabled?: boolean;
+  mfa_secret?: string;
+  mfa_pending_secret?: string;
+  mfa_last_step?: number;
+  mfa_recovery_codes?: string[];
+  [attribute: string]: unknown;
+}
+
+// Attributes of a user that are yet to be checked, or only some of them, e.g. user fields
+export type UserAttributes = { [attribute: string]: unknown };
+
+// An OAuth provider linked to a user, stored in the user's `identities` list
+export interface LinkedIdentity {
+  provider: string;
+  // The user's ID at the provider, if known
+  subject?: string;
+}
+
+// Which users to list. Prefixes are case-sensitive.
+export interface UserListQuery {
+  // The most users to look at. Users that do not match the prefixes count towards this, so a page
+  // may hold fewer users even if more follow.
+  limit: number;
+  // The cursor of the previous page, to continue after it
+  cursor?: string;
+  emailPrefix?: string;
+  usernamePrefix?: string;
+}
+
+// A page of listed users
+export interface UserPage {
+  users: UserItem[];
+  // Pass to the next call to get the next page. Undefined on the last page.
+  cursor?: string;
+}
+
+/**
+ * The storage operations needed by the user data service. Every backend must behave the same way,
+ * so that the business rules in dynamo.ts can run against any of them.
+ *
+ * Backends keep usernames unique (ignoring case). Reserving a username must be atomic with writing
+ * the user, so that two concurrent requests can never both take the same username.
+ */
+export interface UserStore {
+  /**
+   * Adds a new user and reserves their username. Throws a 409 ErrorWithStatus if the username has
+   * been taken.
+   * @param table the table to write to
+   * @param item the full user item, including its user_id and username
+   */
+  addUser(table: string, item: UserItem): Promise<void>;
+
+  /**
+   * Changes a user's username, releasing their old one. Throws a 409 ErrorWithStatus if the new
+   * username has been taken, or a 400 ErrorWithStatus if the user does not exist.
+   * @param table the table to write to
+   * @param userId the user_id of the user to modify
+   * @param username the new username
+   */
+  changeUsername(table: string, userId: string, username: string): Promise<void>;
+
+  /**
+   * Sets the given attributes on an existing user. Throws a 400 ErrorWithStatus if the user does
+   * not exist. Usernames must be changed through changeUsername instead.
+   * @param table the table to write to
+   * @param userId the user_id of the user to modify
+   * @param values the attributes to set and their respective values
+   */
+  editUser(table: string, userId: string, values: { [key: string]: unknown }): Promise<void>;
+
+  /**
+   * Sets the given attributes on a user, but only if other attributes still have the values they
+   * were read with, so that concurrent requests cannot both act on the same old values.
+   * @param table the table to write to
+   * @param userId the user_id of the user to modify
+   * @param values the attributes to set and their respective values
+   * @param expected the attributes to check and the values they must have, where undefined means
+   * the attribute must not be set
+   * @returns whether the attributes were set, which is false if the user does not exist or any
+   * expected attribute has changed
+   */
+  editUserIf(
+    table: string,
+    userId: string,
+    values: { [key: string]: unknown },
+    expected: { [key: string]: unknown }
+  ): Promise<boolean>;
+
+  /**
+   * Removes a user and releases their username. Throws a 400 ErrorWithStatus if the user does not
+   * exist.
+   * @param table the table to delete from
+   * @param userId the user_id of the user to delete
+   */
+  deleteUser(table: string, userId: string): Promise<void>;
+
+  /**
+   * Schedules a user and their username reservation to be deleted, by setting purge_at (in epoch
+   * seconds) on both. On DynamoDB, TTL deletes them some time after purge_at passes, so users may
+   * still be read for a while afterwards. Throws a 400 ErrorWithStatus if the user does not exist.
+   * @param table the table to write to
+   * @param userId the user_id of the user to delete
+   * @param purgeAt when the user should be deleted
+   * @param values other attributes to set on the user at the same time
+   */
+  scheduleDeletion(
+    table: string,
+    userId: string,
+    purgeAt: Date,
+    values: { [key: string]: unknown }
+  ): Promise<void>;
+
+  /**
+   * Cancels a scheduled deletion, by removing purge_at from a user and their username reservation.
+   * Throws a 400 ErrorWithStatus if the user does not exist.
+   * @param table the table to write to
+   * @param userId the user_id of the user to keep
+   * @param values other attributes to set on the user at the same time
+   * @param removed other attributes to remove from the user at the same time
+   */
+  cancelDeletion(
+    table: string,
+    userId: string,
+    values: { [key: string]: unknown },
+    removed?: string[]
+  ): Promise<void>;
+
+  /**
+   * Gets a user by their ID
+   * @param table the table to read from
+   * @param userId the user_id of the user to get
+   * @param fields if provided, only these attributes are returned
+   * @returns the user item, or undefined if the user does not exist
+   */
+  getUser(table: string, userId: string, fields?: string[]): Promise<UserItem | undefined>;
+
+  /**
+   * Finds a user by their email
+   * @param table the table to read from
+   * @param email the email of the user to find
+   * @returns the full user item, or undefined if no user has that email
+   */
+  findUserByEmail(table: string, email: string): Promise<UserItem | undefined>;
+
+  /**
+   * Lists users a page at a time, in no particular order. Throws a 400 ErrorWithStatus if the
+   * cursor is invalid.
+   * @param table the table to read from
+   * @param query which users to list, and where to continue from
+   * @returns the page of full user items, and the cursor of the next page
+   */
+  listUsers(table: string, query: UserListQuery): Promise<UserPage>;
+}
@@ -0,0 +1,240 @@
+import { USER_FIELDS } from "./constants";
+import { ErrorWithStatus } from "./types/errorWithStatus";
+import { UserFieldDefinition, UserFieldType } from "./types/userField";
+import { UserAttributes } from "./types/userStore";
+
+// Checks whether a value, parsed from JSON, has each field type
+const TYPE_CHECKS: { [type in UserFieldType]: (value: unknown) => boolean } = {
+  string: (value) => typeof value === "string",
+  number: (value) => typeof value === "number" && Number.isFinite(value),
+  boolean: (value) => typeof value === "boolean",
+  list: (value) => Array.isArray(value),
+  object: (value) => typeof value === "object" && value !== null && !Array.isArray(value),
+};
+
+// Attributes that could be used to sign in as a user, which are never returned to users and which
+// exports can leave out. resetToken and tokenExpiry are no longer written, as reset tokens are now
+// kept in the records table, but users may still have them from older versions.
+export const SECRET_USER_ATTRIBUTES = [
+  "password_hash",
+  "password_history",
+  "resetToken",
+  "tokenExpiry",
+  "mfa_secret",
+  "mfa_pending_secret",
+  "mfa_recovery_codes",
+  "mfa_last_step",
+];
+
+// The values read back for users created before a field was added, worked out from their other
+// attributes. These take precedence over the fields' defaults, which are only for new users.
+const LEGACY_FIELD_VALUES: { [field: string]: (item: UserAttributes) => unknown } = {
+  // Verification only applies to users who registered after it was added
+  email_verified: () => true,
+  // Users who signed up with a provider before identities were recorded, as in getIdentities
+  identities: (item) => (item.provider ? [{ provider: item.provider }] : []),
+};
+
+// The attributes that LEGACY_FIELD_VALUES read, by field, so that reads can include them
+export const LEGACY_FIELD_SOURCES: { [field: string]: string[] } = {
+  identities: ["provider"],
+};
+
+// A field that failed validation, and why
+export interface InvalidUserField {
+  field: string;
+  message: string;
+}
+
+/**
+ * This function checks user field values against the field schema in USER_FIELDS. Only editable
+ * fields may be passed. When registering, every required editable field must also be present,
+ * unless it has a default.
+ * @param values the fields to set and their respective values
+ * @param registering whether the values are for a new user
+ * @returns nothing, throws a 400 error listing every invalid field in details.invalidFields
+ */
+export function validateUserFields(values: UserAttributes, registering = false) {
+  if (typeof values !== "object" || values === null || Array.isArray(values)) {
+    throw new ErrorWithStatus(
+      "User fields must be passed as an object",
+      400,
+      "INVALID_USER_FIELDS"
+    );
+  }
+
+  Object.keys(values).forEach((field) => {
+    if (!USER_FIELDS[field]?.editable) {
+      throw new ErrorWithStatus(`User field '${field}' is invalid`, 400, "INVALID_USER_FIELDS");
+    }
+  });
+
+  const invalidFields: InvalidUserField[] = [];
+  Object.entries(values).forEach(([field, value]) => {
+    const message = checkFieldValue(USER_FIELDS[field], value);
+    if (message !== undefined) {
+      invalidFields.push({ field, message });
+    }
+  });
+
+  if (registering) {
+    Object.entries(USER_FIELDS).forEach(([field, definition]) => {
+      const missing = values[field] === undefined && definition.default === undefined;
+      if (definition.editable && definition.required && missing) {
+        invalidFields.push({ field, message: "is required" });
+      }
+    });
+  }
+
+  if (invalidFields.length > 0) {
+    throw new ErrorWithStatus("User fields are invalid", 400, "INVALID_USER_FIELDS", {
+      invalidFields,
+    });
+  }
+}
+
+/**
+ * This function checks the declared fields of a whole user item against USER_FIELDS, whether or not
+ * they are editable, e.g. for users imported from another system. Every required field must be
+ * present, unless it has a default. Attributes that are not declared are not checked.
+ * @param item the user item
+ * @returns every invalid field, empty if they are all valid
+ */
+export function findInvalidUserFields(item: UserAttributes): InvalidUserField[] {
+  const invalidFields: InvalidUserField[] = [];
+  Object.entries(USER_FIELDS).forEach(([field, definition]) => {
+    if (item[field] === undefined) {
+      if (definition.required && definition.default === undefined) {
+        invalidFields.push({ field, message: "is required" });
+      }
+      return;
+    }
+    const message = checkFieldValue(definition, item[field]);
+    if (message !== undefined) {
+      invalidFields.push({ field, message });
+    }
+  });
+  return invalidFields;
+}
+
+/**
+ * This function removes every secret attribute from a user item
+ * @param item the user item
+ * @returns a copy of the item without its secrets
+ */
+export function withoutSecrets(item: UserAttributes): UserAttributes {
+  const copy = { ...item };
+  SECRET_USER_ATTRIBUTES.forEach((attribute) => delete copy[attribute]);
+  return copy;
+}
+
+/**
+ * This function checks that every requested field may be retrieved
+ * @param fields the fields requested
+ * @returns nothing, throws a 400 error naming the first field that may not be retrieved
+ */
+export function validateRetrievableFields(fields: string[]) {
+  fields.forEach((field) => {
+    if (!USER_FIELDS[field]?.retrievable) {
+      throw new ErrorWithStatus(`User field '${field}' is invalid`, 400, "INVALID_USER_FIELDS");
+    }
+  });
+}
+
+/**
+ * This function gets every field that may be retrieved
+ * @returns the names of the fields
+ */
+export function retrievableUserFields(): string[] {
+  return Object.keys(USER_FIELDS).filter((field) => USER_FIELDS[field].retrievable);
+}
+
+/**
+ * This function gets the default value of every field that has one, for new users
+ * @returns an object containing the fields and their default values
+ */
+export function userFieldDefaults(): UserAttributes {
+  const defaults: UserAttributes = {};
+  Object.entries(USER_FIELDS).forEach(([field, definition]) => {
+    if (definition.default !== undefined) {
+      // Copied so that callers can never modify the schema's default
+      defaults[field] = structuredClone(definition.default);
+    }
+  });
+  return defaults;
+}
+
+/**
+ * This function fills in the fields a user has never set, e.g. fields added to the schema after the
+ * user registered. Fields in LEGACY_FIELD_VALUES are worked out from the user's other attributes,
+ * and the rest get their defaults.
+ * @param item the user's fields, including any attributes in LEGACY_FIELD_SOURCES
+ * @param fields the fields to fill in
+ * @returns a copy of the item with the fields filled in
+ */
+export function withUserFieldDefaults(item: UserAttributes, fields: string[]): UserAttributes {
+  const filled = { ...item };
+  const defaults = userFieldDefaults();
+  fields.forEach((field) => {
+    if (filled[field] !== undefined) {
+      return;
+    }
+    if (LEGACY_FIELD_VALUES[field] !== undefined) {
+      filled[field] = LEGACY_FIELD_VALUES[field](item);
+    } else if (defaults[field] !== undefined) {
+      filled[field] = defaults[field];
+    }
+  });
+  return filled;
+}
+
+/**
+ * This function checks a value against a field definition
+ * @param definition the definition of the field
+ * @param value the value to check
+ * @returns a description of the first constraint that failed, or undefined if the value is valid
+ */
+function checkFieldValue(definition: UserFieldDefinition, value: unknown): string | undefined {
+  if (!TYPE_CHECKS[definition.type](value)) {
+    return `must be of type ${definition.type}`;
+  }
+
+  if (typeof value === "string" || Array.isArray(value)) {
+    const unit = typeof value === "string" ? "characters" : "items";
+    if (definition.minLength !== undefined && value.length < definition.minLength) {
+      return `must have at least ${definition.minLength} ${unit}`;
+    }
+    if (definition.maxLength !== undefined && value.length > definition.maxLength) {
+      return `must have at most ${definition.maxLength} ${unit}`;
+    }
+  }
+
+  if (typeof value === "number") {
+    if (definition.integer && !Number.isInteger(value)) {
+      return "must be a whole number";
+    }
+    if (definition.min !== undefined && value < definition.min) {
+      return `must be at least ${definition.min}`;
+    }
+    if (definition.max !== undefined && value > definition.max) {
+      return `must be at most ${definition.max}`;
+    }
+  }
+
+  if (typeof value === "string" && definition.pattern && !definition.pattern.test(value)) {
+    return `must contain only ${definition.patternDescription ?? "allowed characters"}`;
+  }
+
+  if (Array.isArray(value)) {
+    if (definition.items && !value.every((item) => TYPE_CHECKS[definition.items!](item))) {
+      return `must only contain items of type ${definition.items}`;
+    }
+    if (definition.enum && !value.every((item) => definition.enum!.includes(item))) {
+      return `must only contain items from: ${definition.enum.join(", ")}`;
+    }
+  } else if (definition.enum && !definition.enum.includes(value)) {
+    return `must be one of: ${definition.enum.join(", ")}`;
+  }
+
+  return undefined;
+}
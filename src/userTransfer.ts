@@ -0,0 +1,429 @@
+import * as EmailValidator from "email-validator";
+import { randomUUID } from "crypto";
+import { TransactionCanceledException } from "@aws-sdk/client-dynamodb";
+import { IMPORT_SETTINGS, USER_FIELDS, userStore } from "./constants";
+import { findUserByEmail, validateTableName } from "./dynamo";
+import {
+  findInvalidUserFields,
+  SECRET_USER_ATTRIBUTES,
+  withoutSecrets,
+  withUserFieldDefaults,
+} from "./userFields";
+import { validateUsername } from "./usernames";
+import { parseCsv, toCsvLine } from "./csv";
+import { ErrorWithStatus } from "./types/errorWithStatus";
+import { UserAttributes, UserItem } from "./types/userStore";
+
+// Bulk export and import of users, e.g. to migrate users from another system or take periodic
+// backups. Used by the users CLI in src/cli/users.ts.
+
+export type TransferFormat = "jsonl" | "csv";
+
+// The attributes that imports write, besides the fields in USER_FIELDS, so that users keep their
+// passwords, MFA and deletion state. Legacy reset tokens and unconfirmed MFA enrollments are left
+// behind, as users can request them again.
+const IMPORTED_ATTRIBUTES = [
+  "user_id",
+  "password_hash",
+  "password_history",
+  "disabled",
+  "disabled_before_deletion",
+  "password_reset_required",
+  "purge_at",
+  "mfa_enabled",
+  "mfa_secret",
+  "mfa_last_step",
+  "mfa_recovery_codes",
+];
+
+// The account state that is exported alongside the fields in USER_FIELDS, even without secrets
+const EXPORTED_ATTRIBUTES = [
+  "disabled",
+  "disabled_before_deletion",
+  "password_reset_required",
+  "purge_at",
+  "mfa_enabled",
+];
+
+// Imported attributes that must be booleans, whole numbers, or lists of bcrypt hashes
+const BOOLEAN_ATTRIBUTES = [
+  "disabled",
+  "disabled_before_deletion",
+  "password_reset_required",
+  "mfa_enabled",
+];
+const INTEGER_ATTRIBUTES = ["purge_at", "mfa_last_step"];
+const HASH_LIST_ATTRIBUTES = ["password_history", "mfa_recovery_codes"];
+
+// Attributes whose CSV cells hold plain strings. Every other cell holds JSON.
+const STRING_ATTRIBUTES = ["user_id", "password_hash", "resetToken", "tokenExpiry", "mfa_secret"];
+
+// Hashes made by bcrypt, e.g. $2a$10$ followed by the 53 character salt and hash
+const BCRYPT_HASH = /^\$2[abxy]?\$\d{2}\$[./A-Za-z0-9]{53}$/;
+
+// The errors DynamoDB throws when requests exceed the table's capacity. Transactions report
+// throttling through the codes of their cancellation reasons instead.
+const THROTTLING_ERRORS = [
+  "ProvisionedThroughputExceededException",
+  "ThrottlingException",
+  "RequestLimitExceeded",
+  "ThrottlingError",
+  "ProvisionedThroughputExceeded",
+];
+
+// How many users to read per page when exporting
+const EXPORT_PAGE_SIZE = 100;
+
+// A row that was not imported, and why. Rows are numbered from 1, not counting the CSV header.
+export interface ImportProblem {
+  row: number;
+  reason: string;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  // The users imported, or that would have been in a dry run
+  imported: number;
+  // Rows whose user_id, email or username is already taken, in the table or earlier in the file
+  duplicates: ImportProblem[];
+  // Rows that break the user field, email or username rules
+  invalid: ImportProblem[];
+  // Rows that could not be written, even after retrying
+  failed: ImportProblem[];
+  // Attributes in the file that are not imported
+  ignoredAttributes: string[];
+}
+
+/**
+ * This function exports every user, a line at a time, so that large tables never have to be held
+ * in memory
+ * @param table the table to read from in DynamoDB
+ * @param format the format to export in
+ * @param includeSecrets whether to include password hashes, reset tokens and MFA secrets
+ * @returns the lines of the export, without line breaks. CSV exports start with a header.
+ */
+export async function* exportUsers(
+  table: string,
+  format: TransferFormat,
+  includeSecrets: boolean
+): AsyncGenerator<string> {
+  validateTableName(table);
+
+  const columns = ["user_id", ...Object.keys(USER_FIELDS), ...EXPORTED_ATTRIBUTES];
+  if (includeSecrets) {
+    columns.push(...SECRET_USER_ATTRIBUTES);
+  }
+  if (format === "csv") {
+    yield toCsvLine(columns);
+  }
+
+  let cursor: string | undefined;
+  do {
+    const page = await userStore.listUsers(table, { limit: EXPORT_PAGE_SIZE, cursor });
+    for (const user of page.users) {
+      // Export the fields of users created before they were added as they are read back, so that
+      // importing the export gives the same users
+      const filled = withUserFieldDefaults(user, Object.keys(USER_FIELDS));
+      const item = includeSecrets ? filled : withoutSecrets(filled);
+      if (format === "csv") {
+        yield toCsvLine(columns.map((column) => toCsvCell(column, item[column])));
+      } else {
+        yield JSON.stringify(item);
+      }
+    }
+    cursor = page.cursor;
+  } while (cursor !== undefined);
+}
+
+/**
+ * This function parses an export file into user items
+ * @param text the contents of the file
+ * @param format the format of the file
+ * @returns the items, throws an error naming the row if a row cannot be parsed
+ */
+export function parseUsers(text: string, format: TransferFormat): UserAttributes[] {
+  if (format === "jsonl") {
+    const lines = text.split(/\r?\n/).filter((line) => line.trim() !== "");
+    return lines.map((line, i) => parseRow(i + 1, () => JSON.parse(line)));
+  }
+
+  const [columns, ...rows] = parseCsv(text);
+  return rows.map((cells, i) =>
+    parseRow(i + 1, () => {
+      const item: UserAttributes = {};
+      columns.forEach((column, j) => {
+        if (cells[j] !== undefined && cells[j] !== "") {
+          item[column] = fromCsvCell(column, cells[j]);
+        }
+      });
+      return item;
+    })
+  );
+}
+
+/**
+ * This function imports users, keeping their existing bcrypt password hashes so that they can sign
+ * in with the same passwords. Users are checked against the same rules as registerUser, and users
+ * whose ID, email or username has been taken are skipped. Nothing is written in a dry run, but
+ * every check is still made.
+ * @param table the table to write to in DynamoDB
+ * @param items the users to import, e.g. from parseUsers
+ * @param dryRun whether to only check the users
+ * @returns what was imported, and every row that was not
+ */
+export async function importUsers(
+  table: string,
+  items: UserAttributes[],
+  dryRun: boolean
+): Promise<ImportReport> {
+  validateTableName(table);
+
+  const report: ImportReport = {
+    dryRun,
+    imported: 0,
+    duplicates: [],
+    invalid: [],
+    failed: [],
+    ignoredAttributes: [],
+  };
+  const accepted = [...IMPORTED_ATTRIBUTES, ...Object.keys(USER_FIELDS)];
+  const ignored = new Set<string>();
+
+  // Check every row, and catch duplicates within the file, before writing any of them
+  const seen = new Map<string, number>();
+  const users: { row: number; item: UserItem }[] = [];
+  items.forEach((raw, i) => {
+    const row = i + 1;
+    Object.keys(raw)
+      .filter((attribute) => !accepted.includes(attribute))
+      .forEach((attribute) => ignored.add(attribute));
+
+    const imported = toImportedUser(raw, accepted);
+    const reason = findInvalidReason(imported);
+    if (reason !== undefined) {
+      report.invalid.push({ row, reason });
+      return;
+    }
+    const item = imported as UserItem;
+
+    // Usernames are unique regardless of case
+    const keys = [
+      `user_id ${item.user_id}`,
+      `email ${item.email}`,
+      `username ${item.username.toLowerCase()}`,
+    ];
+    const repeated = keys.find((key) => seen.has(key));
+    if (repeated !== undefined) {
+      const [attribute] = repeated.split(" ");
+      report.duplicates.push({ row, reason: `Same ${attribute} as row ${seen.get(repeated)}` });
+      return;
+    }
+    keys.forEach((key) => seen.set(key, row));
+    users.push({ row, item });
+  });
+
+  for (let i = 0; i < users.length; i += IMPORT_SETTINGS.batchSize) {
+    const batch = users.slice(i, i + IMPORT_SETTINGS.batchSize);
+    await Promise.all(batch.map(({ row, item }) => importUser(table, row, item, dryRun, report)));
+  }
+
+  // Users in a batch finish in any order
+  [report.duplicates, report.failed].forEach((problems) => problems.sort((a, b) => a.row - b.row));
+  report.ignoredAttributes = [...ignored].sort();
+  return report;
+}
+
+/**
+ * This function imports a single checked user, recording the outcome in the report
+ * @param table the table to write to in DynamoDB
+ * @param row the row the user came from
+ * @param item the user item to write
+ * @param dryRun whether to only check for duplicates
+ * @param report the report to record the outcome in
+ */
+async function importUser(
+  table: string,
+  row: number,
+  item: UserItem,
+  dryRun: boolean,
+  report: ImportReport
+) {
+  try {
+    // Adding a user would overwrite another user with the same ID, so check first
+    if (
+      (await withRetries(() => userStore.getUser(table, item.user_id, ["user_id"]))) !== undefined
+    ) {
+      report.duplicates.push({ row, reason: `User ID ${item.user_id} has been taken` });
+      return;
+    }
+    if ((await withRetries(() => findUserByEmail(table, item.email))) !== undefined) {
+      report.duplicates.push({ row, reason: `Email ${item.email} has been taken` });
+      return;
+    }
+
+    // The username is only reserved when the user is added, so dry runs cannot catch every clash
+    if (!dryRun) {
+      // Deleted users are scheduled for deletion again once added, so that their username
+      // reservation is purged along with them
+      const { purge_at, ...user } = item;
+      await withRetries(() => userStore.addUser(table, user));
+      if (purge_at !== undefined) {
+        const purgeAt = new Date(purge_at * 1000);
+        await withRetries(() => userStore.scheduleDeletion(table, item.user_id, purgeAt, {}));
+      }
+    }
+    report.imported++;
+  } catch (err) {
+    if (err instanceof ErrorWithStatus && err.code === "USERNAME_TAKEN") {
+      report.duplicates.push({ row, reason: err.message });
+    } else {
+      report.failed.push({ row, reason: err instanceof Error ? err.message : String(err) });
+    }
+  }
+}
+
+/**
+ * This function builds the user item to write for an imported row
+ * @param raw the row
+ * @param accepted the attributes that are imported
+ * @returns the user item, with the fields it leaves out filled in as they would be read back
+ */
+function toImportedUser(raw: UserAttributes, accepted: string[]): UserAttributes {
+  const item: UserAttributes = { user_id: randomUUID() };
+  Object.entries(raw).forEach(([attribute, value]) => {
+    if (accepted.includes(attribute) && value !== undefined && value !== null) {
+      item[attribute] = value;
+    }
+  });
+
+  // Rows without email_verified or identities are users created before they were added, e.g.
+  // exported by an older version, so they are verified and keep their legacy provider
+  return withUserFieldDefaults(item, Object.keys(USER_FIELDS));
+}
+
+/**
+ * This function checks an imported user against the rules registerUser applies
+ * @param raw the user item, as built from its row
+ * @returns why the user is invalid, or undefined if it is valid
+ */
+function findInvalidReason(raw: UserAttributes): string | undefined {
+  const invalidFields = findInvalidUserFields(raw);
+  if (invalidFields.length > 0) {
+    return invalidFields.map(({ field, message }) => `${field} ${message}`).join(", ");
+  }
+  if (typeof raw.user_id !== "string" || raw.user_id === "") {
+    return "user_id must be a non-empty string";
+  }
+  if (raw.password_hash !== undefined && typeof raw.password_hash !== "string") {
+    return "password_hash must be a bcrypt hash";
+  }
+  for (const attribute of BOOLEAN_ATTRIBUTES) {
+    if (raw[attribute] !== undefined && typeof raw[attribute] !== "boolean") {
+      return `${attribute} must be a boolean`;
+    }
+  }
+  for (const attribute of INTEGER_ATTRIBUTES) {
+    if (raw[attribute] !== undefined && !Number.isInteger(raw[attribute])) {
+      return `${attribute} must be a whole number`;
+    }
+  }
+  for (const attribute of HASH_LIST_ATTRIBUTES) {
+    const value = raw[attribute];
+    if (value !== undefined && !(Array.isArray(value) && value.every(isBcryptHash))) {
+      return `${attribute} must be a list of bcrypt hashes`;
+    }
+  }
+  if (raw.mfa_secret !== undefined && typeof raw.mfa_secret !== "string") {
+    return "mfa_secret must be a string";
+  }
+
+  // The user fields, such as email and username, have been checked against their types above
+  const item = raw as UserItem;
+  if (!EmailValidator.validate(item.email)) {
+    return "Invalid Email";
+  }
+  try {
+    validateUsername(item.username);
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+  if (item.password_hash !== undefined && !isBcryptHash(item.password_hash)) {
+    return "password_hash must be a bcrypt hash";
+  }
+  if (item.password_hash === undefined && (item.identities ?? []).length === 0) {
+    return "The user has no password_hash or identities to sign in with";
+  }
+  // Exports without secrets leave out the MFA secret, and the user could never sign in without it
+  if (item.mfa_enabled === true && !item.mfa_secret) {
+    return "The user has MFA enabled, but no mfa_secret";
+  }
+  return undefined;
+}
+
+/**
+ * This function retries an operation that DynamoDB throttles, waiting exponentially longer
+ * between each attempt
+ * @param operation the operation
+ * @returns the result of the operation, throws its last error once every attempt has failed
+ */
+async function withRetries<T>(operation: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (err) {
+      if (!isThrottlingError(err) || attempt >= IMPORT_SETTINGS.maxAttempts) {
+        throw err;
+      }
+      const delay = IMPORT_SETTINGS.baseRetryDelayMs * 2 ** (attempt - 1);
+      await new Promise((resolve) => setTimeout(resolve, delay * (0.5 + Math.random() / 2)));
+    }
+  }
+}
+
+function isThrottlingError(err: unknown): boolean {
+  if (err instanceof TransactionCanceledException) {
+    return (err.CancellationReasons ?? []).some((reason) =>
+      THROTTLING_ERRORS.includes(reason.Code ?? "")
+    );
+  }
+  return err instanceof Error && THROTTLING_ERRORS.includes(err.name);
+}
+
+function isBcryptHash(value: unknown): boolean {
+  return typeof value === "string" && BCRYPT_HASH.test(value);
+}
+
+// Wraps errors parsing a row with the row number
+function parseRow(row: number, parse: () => UserAttributes): UserAttributes {
+  try {
+    const item = parse();
+    if (typeof item !== "object" || item === null || Array.isArray(item)) {
+      throw new Error("must be an object");
+    }
+    return item;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Row ${row} could not be parsed: ${message}`);
+  }
+}
+
+function toCsvCell(column: string, value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  if (typeof value === "string" && isStringColumn(column)) {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+function fromCsvCell(column: string, cell: string): unknown {
+  if (isStringColumn(column)) {
+    return cell;
+  }
+  return JSON.parse(cell);
+}
+
+function isStringColumn(column: string): boolean {
+  return STRING_ATTRIBUTES.includes(column) || USER_FIELDS[column]?.type === "string";
+}
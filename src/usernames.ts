@@ -0,0 +1,67 @@
+import { randomInt } from "crypto";
+import { USERNAME_RULES } from "./constants";
+import { ErrorWithStatus } from "./types/errorWithStatus";
+
+/**
+ * This function checks a username against the configured format rules
+ * @param username the username to check
+ * @returns nothing, throws a 400 error describing the first rule that failed
+ */
+export function validateUsername(username: unknown): asserts username is string {
+  if (typeof username !== "string") {
+    throw new ErrorWithStatus("Username must be a string", 400, "INVALID_USERNAME");
+  }
+
+  const { minLength, maxLength, pattern, patternDescription, reserved } = USERNAME_RULES;
+  if (username.length < minLength || username.length > maxLength) {
+    throw new ErrorWithStatus(
+      `Username must be between ${minLength} and ${maxLength} characters long`,
+      400,
+      "INVALID_USERNAME"
+    );
+  }
+  if (!pattern.test(username)) {
+    throw new ErrorWithStatus(
+      `Username may only contain ${patternDescription}`,
+      400,
+      "INVALID_USERNAME"
+    );
+  }
+  if (reserved.includes(username.toLowerCase())) {
+    throw new ErrorWithStatus(`Username '${username}' is reserved`, 400, "INVALID_USERNAME");
+  }
+}
+
+/**
+ * This function turns a display name from an OAuth provider (e.g. "Jane Doe") into usernames that
+ * pass the format rules. The first candidate is the sanitised name, the rest add random suffixes so
+ * the caller can retry if the name has been taken.
+ * @param name the name provided by the OAuth provider
+ * @param attempts the number of candidates to generate
+ * @returns the candidate usernames, in the order they should be tried
+ */
+export function oauthUsernameCandidates(name: string, attempts: number): string[] {
+  const { minLength, maxLength, pattern } = USERNAME_RULES;
+  const suffixLength = 4;
+
+  let base = [...name].filter((char) => pattern.test(char)).join("");
+  if (base.length < minLength || !isUsernameValid(base.slice(0, maxLength))) {
+    base = "user";
+  }
+  base = base.slice(0, maxLength - suffixLength);
+
+  const candidates = [isUsernameValid(name) ? name : base.slice(0, maxLength)];
+  while (candidates.length < attempts) {
+    candidates.push(`${base}${randomInt(10 ** (suffixLength - 1), 10 ** suffixLength)}`);
+  }
+  return candidates;
+}
+
+function isUsernameValid(username: string): boolean {
+  try {
+    validateUsername(username);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
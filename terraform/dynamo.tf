@@ -10,6 +10,117 @@ resource "aws_dynamodb_table" "user-data-table" {
     type = "S"
   }
 
+  attribute {
+    name = "email"
+    type = "S"
+  }
+
+  // All email lookups (login, registration, password reset) query this index instead of scanning
+  // The index name must match EMAIL_INDEX_NAME in src/constants.ts
+  global_secondary_index {
+    name            = "email-index"
+    hash_key        = "email"
+    read_capacity   = 10
+    write_capacity  = 10
+    projection_type = "ALL"
+  }
+
   // DynamoDB is a schema-less database, so attributes are added dynamically to the table as they are written
-  // We are only defining the primary key here
-}
\ No newline at end of file
+  // We are only defining the primary key and the attributes used by indexes here
+
+  // Deleted users are purged once their grace period has passed. See DELETION_SETTINGS in src/constants.ts
+  ttl {
+    attribute_name = "purge_at"
+    enabled        = true
+  }
+}
+
+// Reserves each username (lowercased) for a single user, so that usernames stay unique
+// The table name must match USERNAME_TABLE_NAME in src/constants.ts
+resource "aws_dynamodb_table" "user-data-usernames" {
+  name           = "User Data Usernames"
+  billing_mode   = "PROVISIONED"
+  read_capacity  = 5
+  write_capacity = 5
+  hash_key       = "username"
+
+  attribute {
+    name = "username"
+    type = "S"
+  }
+
+  // Reservations of deleted users are purged along with the users
+  ttl {
+    attribute_name = "purge_at"
+    enabled        = true
+  }
+}
+
+// Short-lived records, such as failed login counters, which DynamoDB deletes once they expire
+// The table name must match RECORD_TABLE_NAME in src/constants.ts
+resource "aws_dynamodb_table" "user-data-records" {
+  name           = "User Data Records"
+  billing_mode   = "PROVISIONED"
+  read_capacity  = 5
+  write_capacity = 5
+  hash_key       = "record_key"
+
+  attribute {
+    name = "record_key"
+    type = "S"
+  }
+
+  ttl {
+    attribute_name = "expires_at"
+    enabled        = true
+  }
+}
+
+// Audit log of security-relevant events, which DynamoDB deletes once their retention period ends
+// event_key starts with the event's timestamp, so that a user's events can be queried by time range
+// The table name must match AUDIT_TABLE_NAME in src/constants.ts
+resource "aws_dynamodb_table" "user-data-audit" {
+  name           = "User Data Audit"
+  billing_mode   = "PROVISIONED"
+  read_capacity  = 5
+  write_capacity = 5
+  hash_key       = "user_id"
+  range_key      = "event_key"
+
+  attribute {
+    name = "user_id"
+    type = "S"
+  }
+
+  attribute {
+    name = "event_key"
+    type = "S"
+  }
+
+  // See AUDIT_SETTINGS in src/constants.ts
+  ttl {
+    attribute_name = "expires_at"
+    enabled        = true
+  }
+}
+
+// Emails that failed to send, waiting to be retried. DynamoDB deletes them once they are given up on
+// The table name must match MAIL_QUEUE_TABLE_NAME in src/constants.ts
+resource "aws_dynamodb_table" "user-data-mail-queue" {
+  name           = "User Data Mail Queue"
+  billing_mode   = "PROVISIONED"
+  read_capacity  = 5
+  write_capacity = 5
+  hash_key       = "mail_id"
+
+  attribute {
+    name = "mail_id"
+    type = "S"
+  }
+
+  // See MAIL_RETRY_SETTINGS in src/constants.ts
+  ttl {
+    attribute_name = "expires_at"
+    enabled        = true
+  }
+}
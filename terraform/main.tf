@@ -5,7 +5,13 @@ data "archive_file" "user_data" {
 }
 
 resource "aws_lambda_function" "user_data" {
-  depends_on = [ aws_dynamodb_table.user-data-table ] // this line will allow the dynamodb table to be created before the lambda function
+  depends_on = [
+    aws_dynamodb_table.user-data-table,
+    aws_dynamodb_table.user-data-usernames,
+    aws_dynamodb_table.user-data-records,
+    aws_dynamodb_table.user-data-audit,
+    aws_dynamodb_table.user-data-mail-queue,
+  ] // this line will allow the dynamodb table to be created before the lambda function
   filename      = data.archive_file.user_data.output_path
   function_name = ""
   handler       = "index.handler"
@@ -20,4 +26,23 @@ resource "aws_lambda_function" "user_data" {
       // specify env vars
       // you can reference the dynamodb table name here
   }
-}
\ No newline at end of file
+}
+
+// Invokes the Lambda every few minutes to retry emails that failed to send
+resource "aws_cloudwatch_event_rule" "user_data_mail_retry" {
+  name                = "user-data-mail-retry"
+  schedule_expression = "rate(5 minutes)"
+}
+
+resource "aws_cloudwatch_event_target" "user_data_mail_retry" {
+  rule = aws_cloudwatch_event_rule.user_data_mail_retry.name
+  arn  = aws_lambda_function.user_data.arn
+}
+
+resource "aws_lambda_permission" "user_data_mail_retry" {
+  statement_id  = "AllowMailRetrySchedule"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.user_data.function_name
+  principal     = "events.amazonaws.com"
+  source_arn    = aws_cloudwatch_event_rule.user_data_mail_retry.arn
+}